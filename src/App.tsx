@@ -3,17 +3,31 @@ import Layout from './components/Layout'
 import ProductList from './components/ProductList'
 import ProductDetail from './components/ProductDetail'
 import ProductByName from './components/ProductByName'
+import Cart from './components/Cart'
+import Checkout from './components/Checkout'
+import SearchResults from './components/SearchResults'
+import CategoryPage from './components/CategoryPage'
+import { CartProvider } from './context/CartContext'
+import { CurrencyProvider } from './context/CurrencyContext'
 import './App.css'
 
 function App() {
   return (
-    <Layout>
-      <Routes>
-        <Route path="/" element={<ProductList />} />
-        <Route path="/product/:id" element={<ProductDetail />} />
-        <Route path="/product-name/:name" element={<ProductByName />} />
-      </Routes>
-    </Layout>
+    <CurrencyProvider>
+      <CartProvider>
+        <Layout>
+          <Routes>
+            <Route path="/" element={<ProductList />} />
+            <Route path="/search" element={<SearchResults />} />
+            <Route path="/category/:slug" element={<CategoryPage />} />
+            <Route path="/product/:id" element={<ProductDetail />} />
+            <Route path="/product-name/:name" element={<ProductByName />} />
+            <Route path="/cart" element={<Cart />} />
+            <Route path="/checkout" element={<Checkout />} />
+          </Routes>
+        </Layout>
+      </CartProvider>
+    </CurrencyProvider>
   )
 }
 
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { toAdLink, useAd } from '../hooks/useAd';
+
+interface AdBannerProps {
+  contextKeys: string[];
+}
+
+const AdBanner: React.FC<AdBannerProps> = ({ contextKeys }) => {
+  const { ad, hide } = useAd(contextKeys);
+
+  // hipstershop ads redirect to store paths like /product/OLJCESPC7Z
+  const link = ad && toAdLink(ad.redirect_url);
+
+  if (!ad || !link) {
+    return null;
+  }
+
+  return (
+    <aside className="ad-banner" aria-label="Advertisement">
+      <span className="ad-label">Ad</span>
+      {link.internal ? (
+        <Link to={link.to} className="ad-text">{ad.text}</Link>
+      ) : (
+        <a href={link.href} className="ad-text" target="_blank" rel="noopener noreferrer sponsored">
+          {ad.text}
+        </a>
+      )}
+      <button className="ad-hide" onClick={hide} aria-label="Hide ads" title="Hide ads">
+        <X />
+      </button>
+    </aside>
+  );
+};
+
+export default AdBanner;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface BlobImageProps {
+  blob: Blob;
+  alt: string;
+  className?: string;
+}
+
+// Each image owns its object URL, so it is revoked when the image leaves the screen
+const BlobImage: React.FC<BlobImageProps> = ({ blob, alt, className = '' }) => {
+  const url = useObjectUrl(blob);
+
+  if (!url) {
+    return <div className={`${className} blob-image-placeholder`} />;
+  }
+  return <img src={url} alt={alt} className={className} />;
+};
+
+export default BlobImage;
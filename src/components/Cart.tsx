@@ -0,0 +1,157 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+import { useCart } from '../context/CartContext';
+import { useProductsByIds } from '../hooks/useProducts';
+import { getProductPrice, multiplyMoney, sumMoney } from '../utils/money';
+import { useCurrency } from '../context/CurrencyContext';
+import ShippingEstimator from './ShippingEstimator';
+import Recommendations from './Recommendations';
+
+const Cart: React.FC = () => {
+  const { formatPrice, formatMoney } = useCurrency();
+  const { items, itemCount, synced, updateQuantity, removeItem, emptyCart } = useCart();
+  const { products, loading, error } = useProductsByIds(items.map(item => item.product_id));
+
+  if (items.length === 0) {
+    return (
+      <div className="empty-state">
+        <h2>Your cart is empty</h2>
+        <p>Browse the catalog and add something you like.</p>
+        <Link to="/" className="btn btn-primary">
+          ← Continue Shopping
+        </Link>
+      </div>
+    );
+  }
+
+  const lines = items.map(item => {
+    const product = products[item.product_id];
+    const lineTotal = product ? multiplyMoney(getProductPrice(product), item.quantity) : null;
+    return { item, product, lineTotal };
+  });
+  const subtotal = sumMoney(lines.flatMap(line => (line.lineTotal ? [line.lineTotal] : [])));
+
+  if (loading && lines.every(line => !line.product)) {
+    return <LoadingSpinner message="Loading your cart..." />;
+  }
+
+  if (error && lines.every(line => !line.product)) {
+    return <ErrorMessage error={error} />;
+  }
+
+  return (
+    <div className="cart-container">
+      <div className="breadcrumb">
+        <Link to="/" className="breadcrumb-link">Products</Link>
+        <span className="breadcrumb-separator">›</span>
+        <span className="breadcrumb-current">Cart</span>
+      </div>
+
+      <div className="page-header">
+        <h1 className="page-title">
+          <span className="title-main">Your Cart</span>
+        </h1>
+        <p className="page-subtitle">
+          {itemCount} item{itemCount === 1 ? '' : 's'}
+          {!synced && ' • saved on this device only'}
+        </p>
+      </div>
+
+      <div className="cart-layout">
+        <ul className="cart-items">
+          {lines.map(({ item, product, lineTotal }) => (
+            <li key={item.product_id} className="cart-item">
+              {product ? (
+                <>
+                  <Link to={`/product/${product.id}`} className="cart-item-image">
+                    <img
+                      src={product.picture}
+                      alt={product.name}
+                      onError={(e) => {
+                        const target = e.target as HTMLImageElement;
+                        if (!target.src.includes('placeholder-product.svg')) {
+                          target.src = '/placeholder-product.svg';
+                          target.onerror = null;
+                        }
+                      }}
+                    />
+                  </Link>
+                  <div className="cart-item-info">
+                    <Link to={`/product/${product.id}`} className="cart-item-name">
+                      {product.name}
+                    </Link>
+                    <span className="cart-item-unit-price">{formatPrice(product.price)} each</span>
+                  </div>
+                </>
+              ) : (
+                <div className="cart-item-info">
+                  <span className="cart-item-name">Product {item.product_id}</span>
+                  <span className="cart-item-unit-price">Unavailable</span>
+                </div>
+              )}
+
+              <div className="cart-item-quantity">
+                <button
+                  className="quantity-button"
+                  onClick={() => updateQuantity(item.product_id, item.quantity - 1)}
+                  aria-label="Decrease quantity"
+                >
+                  −
+                </button>
+                <span aria-live="polite">{item.quantity}</span>
+                <button
+                  className="quantity-button"
+                  onClick={() => updateQuantity(item.product_id, item.quantity + 1)}
+                  aria-label="Increase quantity"
+                >
+                  +
+                </button>
+              </div>
+
+              <div className="cart-item-total">
+                {lineTotal ? formatMoney(lineTotal) : '—'}
+              </div>
+
+              <button
+                className="cart-item-remove"
+                onClick={() => removeItem(item.product_id)}
+                aria-label={`Remove ${product?.name ?? item.product_id} from cart`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <aside className="cart-summary">
+          <h3>Order Summary</h3>
+          <div className="cart-summary-row">
+            <span>Subtotal</span>
+            <strong>{formatMoney(subtotal)}</strong>
+          </div>
+          <ShippingEstimator items={items} />
+          <div className="cart-summary-actions">
+            <Link to="/checkout" className="btn btn-primary">
+              Proceed to Checkout
+            </Link>
+            <button className="btn btn-secondary" onClick={emptyCart}>
+              Empty Cart
+            </button>
+            <Link to="/" className="btn btn-secondary">
+              ← Continue Shopping
+            </Link>
+          </div>
+        </aside>
+      </div>
+
+      <Recommendations
+        productIds={items.map(item => item.product_id)}
+        title="Complete your look"
+      />
+    </div>
+  );
+};
+
+export default Cart;
@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+import ProductCard from './ProductCard';
+import ProductGrid from './ProductGrid';
+import FilterSidebar from './FilterSidebar';
+import AdBanner from './AdBanner';
+import { useProducts } from '../hooks/useProducts';
+import { useProductFilters } from '../hooks/useProductFilters';
+import { toContextKeys } from '../hooks/useAd';
+import { ApiError } from '../services/apiClient';
+import { applyFilters } from '../utils/productFilters';
+import { findCategoryBySlug, productsInCategory } from '../utils/categories';
+
+const CategoryPage: React.FC = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { products, loading, error, retry, refetch } = useProducts();
+  const { filters, filtersKey, updateFilters, resetFilters } = useProductFilters();
+
+  const category = useMemo(() => findCategoryBySlug(products, slug), [products, slug]);
+  const categoryProducts = useMemo(() => productsInCategory(products, slug), [products, slug]);
+  const visibleProducts = useMemo(() => applyFilters(categoryProducts, filters), [categoryProducts, filters]);
+
+  if (loading) {
+    return <LoadingSpinner message="Loading category..." retry={retry} />;
+  }
+
+  if (error) {
+    return (
+      <ErrorMessage
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  if (!category) {
+    return (
+      <ErrorMessage
+        error={new ApiError(`Category "${slug}" not found`, { kind: 'not-found' })}
+      />
+    );
+  }
+
+  return (
+    <div className="product-list-container category-page">
+      <div className="breadcrumb">
+        <Link to="/" className="breadcrumb-link">Products</Link>
+        <span className="breadcrumb-separator">›</span>
+        <span className="breadcrumb-current">{category}</span>
+      </div>
+
+      <div className="page-header">
+        <div className="header-content-main">
+          <h1 className="page-title">
+            <span className="title-text category-title">{category}</span>
+          </h1>
+          <p className="page-subtitle">
+            {categoryProducts.length} product{categoryProducts.length === 1 ? '' : 's'} in this category
+          </p>
+        </div>
+      </div>
+
+      <AdBanner contextKeys={toContextKeys(category)} />
+
+      <div className="catalog-layout">
+        <FilterSidebar
+          products={categoryProducts}
+          filters={filters}
+          onChange={updateFilters}
+          onReset={resetFilters}
+          resultCount={visibleProducts.length}
+          excludeCategory={category}
+        />
+
+        <div className="catalog-main">
+          {visibleProducts.length === 0 ? (
+            <div className="empty-state">
+              <h2>No products match these filters</h2>
+              <p>Try widening the price range or picking other categories.</p>
+              <button className="btn btn-primary" onClick={resetFilters}>
+                Clear filters
+              </button>
+            </div>
+          ) : (
+            <ProductGrid
+              products={visibleProducts}
+              resetKey={`${slug}|${filtersKey}`}
+              renderProduct={(product) => (
+                <ProductCard key={product.id} product={product} />
+              )}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryPage;
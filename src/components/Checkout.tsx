@@ -0,0 +1,365 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { maskCardNumber } from '../utils/validation';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+import { CHECKOUT_STEPS, useCheckout } from '../hooks/useCheckout';
+import { useProductsByIds } from '../hooks/useProducts';
+import { useCurrency } from '../context/CurrencyContext';
+import { addMoney, getProductPrice, multiplyMoney, sumMoney } from '../utils/money';
+
+interface FormFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+  type?: string;
+  placeholder?: string;
+  autoComplete?: string;
+  inputMode?: React.HTMLAttributes<HTMLInputElement>['inputMode'];
+}
+
+const FormField: React.FC<FormFieldProps> = ({
+  id,
+  label,
+  value,
+  error,
+  onChange,
+  type = 'text',
+  placeholder,
+  autoComplete,
+  inputMode,
+}) => (
+  <div className={`form-field ${error ? 'has-error' : ''}`}>
+    <label htmlFor={id}>{label}</label>
+    <input
+      id={id}
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      autoComplete={autoComplete}
+      inputMode={inputMode}
+      onChange={(e) => onChange(e.target.value)}
+      aria-invalid={!!error}
+      aria-describedby={error ? `${id}-error` : undefined}
+    />
+    {error && <span id={`${id}-error`} className="form-field-error">{error}</span>}
+  </div>
+);
+
+const currentYear = new Date().getFullYear();
+const EXPIRATION_YEARS = Array.from({ length: 12 }, (_, i) => currentYear + i);
+
+const Checkout: React.FC = () => {
+  const { formatMoney } = useCurrency();
+  const checkout = useCheckout();
+  const {
+    step,
+    goToStep,
+    items,
+    addressValues,
+    addressErrors,
+    updateAddress,
+    cardValues,
+    cardErrors,
+    updateCard,
+    quote,
+    quoteLoading,
+    quoteError,
+    order,
+    placing,
+    orderError,
+  } = checkout;
+  const { products } = useProductsByIds(items.map(item => item.product_id));
+
+  const subtotal = sumMoney(items.flatMap(item => {
+    const product = products[item.product_id];
+    return product ? [multiplyMoney(getProductPrice(product), item.quantity)] : [];
+  }));
+  const total = quote ? addMoney(subtotal, quote) : subtotal;
+
+  if (items.length === 0 && step !== 'confirmation') {
+    return (
+      <div className="empty-state">
+        <h2>Your cart is empty</h2>
+        <p>Add some products before checking out.</p>
+        <Link to="/" className="btn btn-primary">
+          ← Continue Shopping
+        </Link>
+      </div>
+    );
+  }
+
+  const stepIndex = CHECKOUT_STEPS.findIndex(s => s.id === step);
+
+  return (
+    <div className="checkout-container">
+      <div className="breadcrumb">
+        <Link to="/cart" className="breadcrumb-link">Cart</Link>
+        <span className="breadcrumb-separator">›</span>
+        <span className="breadcrumb-current">Checkout</span>
+      </div>
+
+      <ol className="checkout-steps">
+        {CHECKOUT_STEPS.map((s, index) => (
+          <li
+            key={s.id}
+            className={`checkout-step ${index === stepIndex ? 'active' : ''} ${index < stepIndex ? 'done' : ''}`}
+            aria-current={index === stepIndex ? 'step' : undefined}
+          >
+            <span className="checkout-step-number">{index + 1}</span>
+            {s.label}
+          </li>
+        ))}
+      </ol>
+
+      <div className="checkout-panel">
+        {step === 'address' && (
+          <form
+            className="checkout-form"
+            noValidate
+            onSubmit={(e) => {
+              e.preventDefault();
+              checkout.submitAddress();
+            }}
+          >
+            <h2>Shipping Address</h2>
+            <FormField
+              id="email"
+              label="Email"
+              type="email"
+              autoComplete="email"
+              value={addressValues.email}
+              error={addressErrors.email}
+              onChange={(value) => updateAddress('email', value)}
+            />
+            <FormField
+              id="street_address"
+              label="Street address"
+              autoComplete="street-address"
+              value={addressValues.street_address}
+              error={addressErrors.street_address}
+              onChange={(value) => updateAddress('street_address', value)}
+            />
+            <div className="form-row">
+              <FormField
+                id="city"
+                label="City"
+                autoComplete="address-level2"
+                value={addressValues.city}
+                error={addressErrors.city}
+                onChange={(value) => updateAddress('city', value)}
+              />
+              <FormField
+                id="state"
+                label="State"
+                autoComplete="address-level1"
+                value={addressValues.state}
+                error={addressErrors.state}
+                onChange={(value) => updateAddress('state', value)}
+              />
+            </div>
+            <div className="form-row">
+              <FormField
+                id="zip_code"
+                label="Zip code"
+                inputMode="numeric"
+                autoComplete="postal-code"
+                value={addressValues.zip_code}
+                error={addressErrors.zip_code}
+                onChange={(value) => updateAddress('zip_code', value)}
+              />
+              <FormField
+                id="country"
+                label="Country"
+                autoComplete="country-name"
+                value={addressValues.country}
+                error={addressErrors.country}
+                onChange={(value) => updateAddress('country', value)}
+              />
+            </div>
+            <div className="checkout-actions">
+              <Link to="/cart" className="btn btn-secondary">← Back to Cart</Link>
+              <button type="submit" className="btn btn-primary">Continue to Shipping</button>
+            </div>
+          </form>
+        )}
+
+        {step === 'shipping' && (
+          <div className="checkout-form">
+            <h2>Shipping</h2>
+            {quoteLoading && <LoadingSpinner size="small" message="Getting a shipping quote..." />}
+            {quoteError && (
+              <ErrorMessage variant="inline" error={quoteError} onRetry={checkout.fetchQuote} />
+            )}
+            {quote && !quoteLoading && (
+              <div className="checkout-quote">
+                <span>Standard shipping to {addressValues.city}, {addressValues.country}</span>
+                <strong>{formatMoney(quote)}</strong>
+              </div>
+            )}
+            <div className="checkout-actions">
+              <button className="btn btn-secondary" onClick={() => goToStep('address')}>← Edit Address</button>
+              <button
+                className="btn btn-primary"
+                onClick={() => goToStep('payment')}
+                disabled={!quote || quoteLoading}
+              >
+                Continue to Payment
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'payment' && (
+          <form
+            className="checkout-form"
+            noValidate
+            onSubmit={(e) => {
+              e.preventDefault();
+              checkout.submitPayment();
+            }}
+          >
+            <h2>Payment</h2>
+            <FormField
+              id="credit_card_number"
+              label="Card number"
+              inputMode="numeric"
+              autoComplete="cc-number"
+              placeholder="4432 8015 6152 0454"
+              value={cardValues.credit_card_number}
+              error={cardErrors.credit_card_number}
+              onChange={(value) => updateCard('credit_card_number', value)}
+            />
+            <div className="form-row">
+              <div className={`form-field ${cardErrors.credit_card_expiration_month ? 'has-error' : ''}`}>
+                <label htmlFor="credit_card_expiration_month">Month</label>
+                <select
+                  id="credit_card_expiration_month"
+                  autoComplete="cc-exp-month"
+                  value={cardValues.credit_card_expiration_month}
+                  onChange={(e) => updateCard('credit_card_expiration_month', e.target.value)}
+                >
+                  <option value="">MM</option>
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map(month => (
+                    <option key={month} value={month}>{String(month).padStart(2, '0')}</option>
+                  ))}
+                </select>
+                {cardErrors.credit_card_expiration_month && (
+                  <span className="form-field-error">{cardErrors.credit_card_expiration_month}</span>
+                )}
+              </div>
+              <div className={`form-field ${cardErrors.credit_card_expiration_year ? 'has-error' : ''}`}>
+                <label htmlFor="credit_card_expiration_year">Year</label>
+                <select
+                  id="credit_card_expiration_year"
+                  autoComplete="cc-exp-year"
+                  value={cardValues.credit_card_expiration_year}
+                  onChange={(e) => updateCard('credit_card_expiration_year', e.target.value)}
+                >
+                  <option value="">YYYY</option>
+                  {EXPIRATION_YEARS.map(year => (
+                    <option key={year} value={year}>{year}</option>
+                  ))}
+                </select>
+                {cardErrors.credit_card_expiration_year && (
+                  <span className="form-field-error">{cardErrors.credit_card_expiration_year}</span>
+                )}
+              </div>
+              <FormField
+                id="credit_card_cvv"
+                label="CVV"
+                inputMode="numeric"
+                autoComplete="cc-csc"
+                value={cardValues.credit_card_cvv}
+                error={cardErrors.credit_card_cvv}
+                onChange={(value) => updateCard('credit_card_cvv', value)}
+              />
+            </div>
+            <div className="checkout-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => goToStep('shipping')}>← Back</button>
+              <button type="submit" className="btn btn-primary">Review Order</button>
+            </div>
+          </form>
+        )}
+
+        {step === 'review' && (
+          <div className="checkout-form">
+            <h2>Review Your Order</h2>
+            <ul className="checkout-review-items">
+              {items.map(item => {
+                const product = products[item.product_id];
+                return (
+                  <li key={item.product_id}>
+                    <span>{item.quantity} × {product?.name ?? item.product_id}</span>
+                    <span>{product ? formatMoney(multiplyMoney(getProductPrice(product), item.quantity)) : '—'}</span>
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="checkout-review-details">
+              <div>
+                <h4>Ship to</h4>
+                <p>{addressValues.street_address}</p>
+                <p>{addressValues.city}, {addressValues.state} {addressValues.zip_code}</p>
+                <p>{addressValues.country}</p>
+                <p>{addressValues.email}</p>
+              </div>
+              <div>
+                <h4>Pay with</h4>
+                <p>{maskCardNumber(cardValues.credit_card_number)}</p>
+                <p>
+                  Expires {cardValues.credit_card_expiration_month.padStart(2, '0')}/{cardValues.credit_card_expiration_year}
+                </p>
+              </div>
+            </div>
+            <div className="checkout-totals">
+              <div><span>Subtotal</span><span>{formatMoney(subtotal)}</span></div>
+              <div><span>Shipping</span><span>{quote ? formatMoney(quote) : '—'}</span></div>
+              <div className="checkout-total"><span>Total</span><strong>{formatMoney(total)}</strong></div>
+            </div>
+            {orderError && (
+              <ErrorMessage variant="inline" error={orderError} onRetry={checkout.placeOrder} />
+            )}
+            <div className="checkout-actions">
+              <button className="btn btn-secondary" onClick={() => goToStep('payment')} disabled={placing}>← Back</button>
+              {placing ? (
+                <LoadingSpinner size="small" message="Placing your order..." />
+              ) : (
+                <button className="btn btn-primary" onClick={checkout.placeOrder}>Place Order</button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === 'confirmation' && order && (
+          <div className="checkout-confirmation">
+            <div className="checkout-confirmation-icon">✅</div>
+            <h2>Thank you for your order!</h2>
+            <p>A confirmation was sent to {addressValues.email}.</p>
+            <div className="checkout-confirmation-ids">
+              <div>
+                <span>Order ID</span>
+                <code>{order.order_id}</code>
+              </div>
+              <div>
+                <span>Shipping tracking ID</span>
+                <code>{order.shipping_tracking_id}</code>
+              </div>
+              {order.shipping_cost && (
+                <div>
+                  <span>Shipping cost</span>
+                  <strong>{formatMoney(order.shipping_cost)}</strong>
+                </div>
+              )}
+            </div>
+            <Link to="/" className="btn btn-primary">Continue Shopping</Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Checkout;
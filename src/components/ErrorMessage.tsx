@@ -1,37 +1,141 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
+import { ApiError, ApiErrorKind } from '../services/apiClient';
 
 interface ErrorMessageProps {
-  message: string;
+  error: ApiError | string;
   onRetry?: () => void;
   showRetry?: boolean;
+  variant?: 'page' | 'inline';
 }
 
+interface ErrorCopy {
+  icon: string;
+  title: string;
+  description: string;
+  tips: string[];
+}
+
+const ERROR_COPY: Record<ApiErrorKind, ErrorCopy> = {
+  'network': {
+    icon: '📡',
+    title: 'You appear to be offline',
+    description: 'We could not reach the NeroFashion servers.',
+    tips: ['Check your internet connection', 'Disable any VPN or proxy that may block the request'],
+  },
+  'timeout': {
+    icon: '⏱️',
+    title: 'This is taking longer than expected',
+    description: 'The server did not answer in time. AI features can be slow on busy connections.',
+    tips: ['Try again in a few seconds', 'Use a smaller image for AI features'],
+  },
+  'not-found': {
+    icon: '🔍',
+    title: 'We could not find that',
+    description: 'The item you are looking for does not exist or was removed from the catalog.',
+    tips: ['Check the link you followed', 'Browse the full catalog instead'],
+  },
+  'validation': {
+    icon: '⚠️',
+    title: 'Something is wrong with the request',
+    description: 'The server rejected the information that was sent.',
+    tips: ['Review the fields and try again'],
+  },
+  'payload-too-large': {
+    icon: '📦',
+    title: 'That image is too large',
+    description: 'The server only accepts smaller uploads.',
+    tips: ['Resize or compress the image', 'Take a screenshot of the photo and upload that instead'],
+  },
+  'server': {
+    icon: '🛠️',
+    title: 'Our servers are having trouble',
+    description: 'Something went wrong on our side. This is usually temporary.',
+    tips: ['Try again in a moment', 'Contact support if the problem persists'],
+  },
+  'ai-refusal': {
+    icon: '🤖',
+    title: 'The AI could not process this image',
+    description: 'The model declined to answer. This happens with unclear photos or content it cannot analyze.',
+    tips: ['Use a well-lit photo where the person or product is clearly visible', 'Try a different image'],
+  },
+  'unsupported': {
+    icon: '🚧',
+    title: 'Not available yet',
+    description: '',
+    tips: ['Start a new conversation to get a fresh analysis'],
+  },
+  'aborted': {
+    icon: '🛑',
+    title: 'Request cancelled',
+    description: 'The request was stopped before it finished.',
+    tips: ['Start it again when you are ready'],
+  },
+  'unknown': {
+    icon: '❌',
+    title: 'Oops! Something went wrong',
+    description: '',
+    tips: ['Refresh the page', 'Contact support if needed'],
+  },
+};
+
 const ErrorMessage: React.FC<ErrorMessageProps> = ({
-  message,
+  error,
   onRetry,
-  showRetry = true
+  showRetry = true,
+  variant = 'page'
 }) => {
+  const apiError = typeof error === 'string' ? new ApiError(error) : error;
+  const copy = ERROR_COPY[apiError.kind];
+  const canRetry = showRetry && !!onRetry && apiError.retryable;
+  const description = copy.description || apiError.message;
+
+  if (variant === 'inline') {
+    return (
+      <div className={`error-inline error-${apiError.kind}`} role="alert">
+        <p className="error-inline-title">
+          <span className="error-inline-icon">{copy.icon}</span> {copy.title}
+        </p>
+        <p className="error-inline-description">{description}</p>
+        {copy.tips.length > 0 && <p className="error-inline-tip">{copy.tips[0]}</p>}
+        {canRetry && (
+          <button onClick={onRetry} className="btn btn-secondary">
+            Try Again
+          </button>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="error-container">
-      <div className="error-content">
-        <div className="error-icon">❌</div>
-        <h2>Oops! Something went wrong</h2>
-        <p className="error-message">{message}</p>
+      <div className={`error-content error-${apiError.kind}`} role="alert">
+        <div className="error-icon">{copy.icon}</div>
+        <h2>{copy.title}</h2>
+        <p className="error-message">{description}</p>
 
-        {showRetry && onRetry && (
+        {canRetry && (
           <button onClick={onRetry} className="btn btn-primary">
             Try Again
           </button>
         )}
 
-        <div className="error-help">
-          <p>If the problem persists, please:</p>
-          <ul>
-            <li>Check your internet connection</li>
-            <li>Refresh the page</li>
-            <li>Contact support if needed</li>
-          </ul>
-        </div>
+        {apiError.kind === 'not-found' && (
+          <Link to="/" className="btn btn-primary">
+            ← Back to Products
+          </Link>
+        )}
+
+        {copy.tips.length > 0 && (
+          <div className="error-help">
+            <p>What you can do:</p>
+            <ul>
+              {copy.tips.map((tip) => (
+                <li key={tip}>{tip}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,35 +1,68 @@
 import React, { useState, useEffect, useRef } from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { Send } from 'lucide-react';
 import { Product } from '../types/Product';
-import { formatPrice } from '../utils/formatters';
-import { useFashion } from '../hooks/useFashion';
+import { useFashionChat } from '../hooks/useFashionChat';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { FashionChatMessage } from '../utils/fashionChats';
 import ImageUpload from './ImageUpload';
 import LoadingSpinner from './LoadingSpinner';
+import StreamingStatus from './StreamingStatus';
+import ErrorMessage from './ErrorMessage';
+import { useCurrency } from '../context/CurrencyContext';
 
 interface FashionAssistantProps {
   onClose: () => void;
   product: Product;
 }
 
+// Customize markdown rendering to match existing fashion styles
+const MARKDOWN_COMPONENTS: Components = {
+  p: ({ children }) => <p className="markdown-paragraph">{children}</p>,
+  h1: ({ children }) => <h1 className="markdown-h1">{children}</h1>,
+  h2: ({ children }) => <h2 className="markdown-h2">{children}</h2>,
+  h3: ({ children }) => <h3 className="markdown-h3">{children}</h3>,
+  ul: ({ children }) => <ul className="markdown-list">{children}</ul>,
+  ol: ({ children }) => <ol className="markdown-ordered-list">{children}</ol>,
+  li: ({ children }) => <li className="markdown-list-item">{children}</li>,
+  strong: ({ children }) => <strong className="markdown-bold">{children}</strong>,
+  em: ({ children }) => <em className="markdown-italic">{children}</em>,
+  code: ({ children }) => <code className="markdown-code">{children}</code>,
+  blockquote: ({ children }) => <blockquote className="markdown-blockquote">{children}</blockquote>
+};
+
 const FashionAssistant: React.FC<FashionAssistantProps> = ({
   onClose,
   product
 }) => {
+  const { formatPrice } = useCurrency();
   const [userImage, setUserImage] = useState<File | null>(null);
-  const [copySuccess, setCopySuccess] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
   const [isPaused, setIsPaused] = useState(false);
   const [speechSupported, setSpeechSupported] = useState(false);
   const speechRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const threadEndRef = useRef<HTMLDivElement>(null);
 
   const {
+    messages,
+    suggestions,
+    image,
+    setImage,
     isLoading,
+    retry,
     error,
-    result,
-    getFashionAdvice,
+    start,
+    ask,
+    retryLast,
+    cancel,
     reset,
-  } = useFashion();
+  } = useFashionChat(product);
+
+  // Thumbnail of the photo the conversation is about
+  const imageUrl = useObjectUrl(image);
 
   // Check if speech synthesis is supported
   useEffect(() => {
@@ -45,28 +78,34 @@ const FashionAssistant: React.FC<FashionAssistantProps> = ({
     };
   }, []);
 
+  // Keep the newest message in view as it streams in
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, lastMessage?.content]);
+
   // Voice-over functions
-  const playAdvice = () => {
-    if (!speechSupported || !result?.description) return;
+  const playMessage = (message: FashionChatMessage) => {
+    if (!speechSupported || !message.content) return;
 
     // Stop any current speech
     window.speechSynthesis.cancel();
 
-    const utterance = new SpeechSynthesisUtterance(result.description);
+    const utterance = new SpeechSynthesisUtterance(message.content);
     speechRef.current = utterance;
 
     utterance.onstart = () => {
-      setIsPlaying(true);
+      setSpeakingId(message.id);
       setIsPaused(false);
     };
 
     utterance.onend = () => {
-      setIsPlaying(false);
+      setSpeakingId(null);
       setIsPaused(false);
     };
 
     utterance.onerror = () => {
-      setIsPlaying(false);
+      setSpeakingId(null);
       setIsPaused(false);
     };
 
@@ -78,7 +117,7 @@ const FashionAssistant: React.FC<FashionAssistantProps> = ({
     window.speechSynthesis.speak(utterance);
   };
 
-  const pauseAdvice = () => {
+  const pauseSpeech = () => {
     if (!speechSupported) return;
 
     if (window.speechSynthesis.speaking && !window.speechSynthesis.paused) {
@@ -87,7 +126,7 @@ const FashionAssistant: React.FC<FashionAssistantProps> = ({
     }
   };
 
-  const resumeAdvice = () => {
+  const resumeSpeech = () => {
     if (!speechSupported) return;
 
     if (window.speechSynthesis.paused) {
@@ -96,11 +135,11 @@ const FashionAssistant: React.FC<FashionAssistantProps> = ({
     }
   };
 
-  const stopAdvice = () => {
+  const stopSpeech = () => {
     if (!speechSupported) return;
 
     window.speechSynthesis.cancel();
-    setIsPlaying(false);
+    setSpeakingId(null);
     setIsPaused(false);
   };
 
@@ -110,20 +149,21 @@ const FashionAssistant: React.FC<FashionAssistantProps> = ({
       return;
     }
 
-    try {
-      await getFashionAdvice({ image: userImage });
-    } catch (error) {
-      console.error('Fashion advice failed:', error);
-    }
+    await start(userImage);
   };
 
-  const handleCopyAdvice = async () => {
-    if (!result?.description) return;
+  const handleAsk = async (text: string = question) => {
+    if (!text.trim() || isLoading) return;
+
+    setQuestion('');
+    await ask(text);
+  };
 
+  const handleCopy = async (message: FashionChatMessage) => {
     try {
-      await navigator.clipboard.writeText(result.description);
-      setCopySuccess(true);
-      setTimeout(() => setCopySuccess(false), 2000);
+      await navigator.clipboard.writeText(message.content);
+      setCopiedId(message.id);
+      setTimeout(() => setCopiedId(null), 2000);
     } catch (err) {
       console.error('Failed to copy advice:', err);
     }
@@ -131,10 +171,100 @@ const FashionAssistant: React.FC<FashionAssistantProps> = ({
 
   const handleStartOver = () => {
     reset();
-    stopAdvice(); // Stop any playing speech
+    stopSpeech(); // Stop any playing speech
     setUserImage(null);
+    setQuestion('');
+  };
+
+  const renderVoiceControls = (message: FashionChatMessage) => {
+    if (!speechSupported) return null;
+
+    if (speakingId !== message.id) {
+      return (
+        <button
+          className="voice-button play-button"
+          onClick={() => playMessage(message)}
+          aria-label="Play fashion advice with text-to-speech"
+          title="Play advice"
+        >
+          🔊 Play
+        </button>
+      );
+    }
+
+    return (
+      <>
+        {!isPaused ? (
+          <button
+            className="voice-button pause-button"
+            onClick={pauseSpeech}
+            aria-label="Pause text-to-speech"
+            title="Pause"
+          >
+            ⏸️ Pause
+          </button>
+        ) : (
+          <button
+            className="voice-button resume-button"
+            onClick={resumeSpeech}
+            aria-label="Resume text-to-speech"
+            title="Resume"
+          >
+            ▶️ Resume
+          </button>
+        )}
+        <button
+          className="voice-button stop-button"
+          onClick={stopSpeech}
+          aria-label="Stop text-to-speech"
+          title="Stop"
+        >
+          ⏹️ Stop
+        </button>
+      </>
+    );
   };
 
+  const renderMessage = (message: FashionChatMessage, index: number) => {
+    if (message.role === 'user') {
+      return (
+        <div key={message.id} className="fashion-chat-message user">
+          <div className="fashion-chat-bubble">{message.content}</div>
+        </div>
+      );
+    }
+
+    const streaming = isLoading && index === messages.length - 1;
+
+    return (
+      <div key={message.id} className="fashion-chat-message assistant">
+        <div className="fashion-chat-bubble fashion-advice-text">
+          {message.content ? (
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS}>
+              {message.content}
+            </ReactMarkdown>
+          ) : (
+            <LoadingSpinner size="small" message="Thinking..." retry={retry} onCancel={cancel} />
+          )}
+          {message.content && (
+            <StreamingStatus streaming={streaming} partial={!!message.partial} onCancel={cancel} />
+          )}
+        </div>
+        {message.content && !streaming && (
+          <div className="fashion-chat-message-actions" role="group" aria-label="Message actions">
+            {renderVoiceControls(message)}
+            <button
+              className={`copy-button ${copiedId === message.id ? 'copied' : ''}`}
+              onClick={() => handleCopy(message)}
+              aria-label="Copy fashion advice to clipboard"
+            >
+              {copiedId === message.id ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
 
   return (
     <div className="fashion-assistant-modal">
@@ -147,7 +277,7 @@ const FashionAssistant: React.FC<FashionAssistantProps> = ({
         </div>
 
         <div className="fashion-body">
-          {!result ? (
+          {messages.length === 0 ? (
             <div className="fashion-setup">
               {/* Product Info */}
               <div className="fashion-product-info">
@@ -178,136 +308,107 @@ const FashionAssistant: React.FC<FashionAssistantProps> = ({
 
               {/* Action Buttons */}
               <div className="fashion-actions">
-                {isLoading ? (
-                  <LoadingSpinner message="Analyzing your style with AI..." />
-                ) : (
-                  <button
-                    className="btn btn-primary fashion-analyze-btn"
-                    onClick={handleGetAdvice}
-                    disabled={!userImage}
-                  >
-                    Analyze My Style
-                  </button>
-                )}
-
-                {error && (
-                  <div className="fashion-error">
-                    <p>Error: {error}</p>
-                    <button className="btn btn-secondary" onClick={reset}>
-                      Try Again
-                    </button>
-                  </div>
-                )}
+                <button
+                  className="btn btn-primary fashion-analyze-btn"
+                  onClick={handleGetAdvice}
+                  disabled={!userImage}
+                >
+                  Analyze My Style
+                </button>
               </div>
             </div>
           ) : (
-            <div className="fashion-results">
-              {/* Results Header */}
-              <div className="fashion-results-header">
-                <h3>Your Personalized Style Analysis</h3>
-                <p>Here are your exclusive fashion tips!</p>
+            <div className="fashion-results fashion-chat">
+              {/* Conversation Header */}
+              <div className="fashion-chat-header">
+                {imageUrl && <img src={imageUrl} alt="Your photo" className="fashion-chat-photo" />}
+                <img src={product.picture} alt={product.name} className="fashion-chat-photo" />
+                <div className="fashion-chat-title">
+                  <h3>Your Style Conversation</h3>
+                  <p>About {product.name}</p>
+                </div>
               </div>
 
-              {/* Fashion Advice */}
-              <div className="fashion-advice-container">
-                <div className="section-header">
-                  <h4>Fashion Tips</h4>
-                  <div className="header-actions">
-                    {speechSupported && (
-                      <div className="voice-controls" role="group" aria-label="Voice playback controls">
-                        {!isPlaying ? (
-                          <button
-                            className="voice-button play-button"
-                            onClick={playAdvice}
-                            aria-label="Play fashion advice with text-to-speech"
-                            title="Play advice"
-                          >
-                            🔊 Play
-                          </button>
-                        ) : (
-                          <>
-                            {!isPaused ? (
-                              <button
-                                className="voice-button pause-button"
-                                onClick={pauseAdvice}
-                                aria-label="Pause text-to-speech"
-                                title="Pause"
-                              >
-                                ⏸️ Pause
-                              </button>
-                            ) : (
-                              <button
-                                className="voice-button resume-button"
-                                onClick={resumeAdvice}
-                                aria-label="Resume text-to-speech"
-                                title="Resume"
-                              >
-                                ▶️ Resume
-                              </button>
-                            )}
-                            <button
-                              className="voice-button stop-button"
-                              onClick={stopAdvice}
-                              aria-label="Stop text-to-speech"
-                              title="Stop"
-                            >
-                              ⏹️ Stop
-                            </button>
-                          </>
-                        )}
-                      </div>
-                    )}
-                    <button
-                      className={`copy-button ${copySuccess ? 'copied' : ''}`}
-                      onClick={handleCopyAdvice}
-                      aria-label="Copy fashion advice to clipboard"
-                    >
-                      {copySuccess ? 'Copied!' : 'Copy Tips'}
-                    </button>
-                  </div>
+              {/* Messages */}
+              <div className="fashion-chat-thread" aria-live="polite">
+                {messages.map(renderMessage)}
+                <div ref={threadEndRef} />
+              </div>
+
+              {error && (
+                <div className="fashion-error">
+                  <ErrorMessage variant="inline" error={error} onRetry={image ? retryLast : undefined} />
                 </div>
-                <div className="fashion-advice-text" aria-live="polite">
-                  <ReactMarkdown
-                    remarkPlugins={[remarkGfm]}
-                    components={{
-                      // Customize markdown rendering to match existing fashion styles
-                      p: ({ children }) => <p className="markdown-paragraph">{children}</p>,
-                      h1: ({ children }) => <h1 className="markdown-h1">{children}</h1>,
-                      h2: ({ children }) => <h2 className="markdown-h2">{children}</h2>,
-                      h3: ({ children }) => <h3 className="markdown-h3">{children}</h3>,
-                      ul: ({ children }) => <ul className="markdown-list">{children}</ul>,
-                      ol: ({ children }) => <ol className="markdown-ordered-list">{children}</ol>,
-                      li: ({ children }) => <li className="markdown-list-item">{children}</li>,
-                      strong: ({ children }) => <strong className="markdown-bold">{children}</strong>,
-                      em: ({ children }) => <em className="markdown-italic">{children}</em>,
-                      code: ({ children }) => <code className="markdown-code">{children}</code>,
-                      blockquote: ({ children }) => <blockquote className="markdown-blockquote">{children}</blockquote>
+              )}
+
+              {!image ? (
+                // The photo is kept for the session only
+                <div className="fashion-upload-section fashion-chat-reupload">
+                  <p className="fashion-upload-description">
+                    Upload your photo again to continue this conversation.
+                  </p>
+                  <ImageUpload
+                    label="Upload Your Photo"
+                    description="The photo this conversation is about"
+                    onImageSelect={setImage}
+                    maxSize={10}
+                  />
+                </div>
+              ) : (
+                <>
+                  {/* Suggested Follow-ups */}
+                  {!isLoading && suggestions.length > 0 && (
+                    <div className="fashion-chat-suggestions">
+                      {suggestions.map(suggestion => (
+                        <button
+                          key={suggestion}
+                          type="button"
+                          className="suggestion-btn"
+                          onClick={() => handleAsk(suggestion)}
+                        >
+                          {suggestion}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Follow-up Input */}
+                  <form
+                    className="fashion-chat-input"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleAsk();
                     }}
                   >
-                    {result.description}
-                  </ReactMarkdown>
-                  {!speechSupported && (
-                    <p className="voice-not-supported">
-                      <small>Text-to-speech is not supported in your browser</small>
-                    </p>
-                  )}
-                </div>
-              </div>
+                    <input
+                      type="text"
+                      value={question}
+                      onChange={(e) => setQuestion(e.target.value)}
+                      placeholder="Ask a follow-up, e.g. what shoes go with this?"
+                      aria-label="Ask the fashion assistant a follow-up question"
+                      disabled={isLoading}
+                    />
+                    <button
+                      type="submit"
+                      className="btn btn-primary"
+                      disabled={isLoading || !question.trim()}
+                      aria-label="Send question"
+                    >
+                      <Send className="btn-icon" aria-hidden="true" />
+                    </button>
+                  </form>
+                </>
+              )}
 
               {/* Action Buttons */}
               <div className="fashion-results-actions">
                 <button
-                  className="btn btn-primary"
+                  className="btn btn-secondary"
                   onClick={handleStartOver}
                 >
-                  New Analysis
+                  New Conversation
                 </button>
               </div>
-
-              {/* Metadata */}
-              <div className="fashion-metadata">
-                <small>Analysis ID: {result.image_id}</small>
-              </div>
             </div>
           )}
         </div>
@@ -0,0 +1,167 @@
+import React from 'react';
+import { Product } from '../types/Product';
+import {
+  ProductFilters,
+  SortOption,
+  getCategoryFacets,
+  getPriceBounds,
+  hasActiveFilters,
+} from '../utils/productFilters';
+import { useCurrency } from '../context/CurrencyContext';
+
+interface FilterSidebarProps {
+  products: Product[];  // The unfiltered set the facets are built from
+  filters: ProductFilters;
+  onChange: (changes: Partial<ProductFilters>) => void;
+  onReset: () => void;
+  resultCount: number;
+  searching?: boolean;
+  excludeCategory?: string;  // The category a category page is already scoped to
+}
+
+const SORT_LABELS: Record<SortOption, string> = {
+  'relevance': 'Featured',
+  'price-asc': 'Price: low to high',
+  'price-desc': 'Price: high to low',
+  'name': 'Name: A to Z',
+};
+
+const FilterSidebar: React.FC<FilterSidebarProps> = ({
+  products,
+  filters,
+  onChange,
+  onReset,
+  resultCount,
+  searching = false,
+  excludeCategory,
+}) => {
+  const { formatPrice } = useCurrency();
+  const facets = getCategoryFacets(products, filters).filter(facet => facet.category !== excludeCategory);
+  const bounds = getPriceBounds(products);
+
+  const minValue = bounds ? Math.max(bounds.min, Math.min(filters.minPrice ?? bounds.min, bounds.max)) : 0;
+  const maxValue = bounds ? Math.min(bounds.max, Math.max(filters.maxPrice ?? bounds.max, bounds.min)) : 0;
+
+  const toggleCategory = (category: string) => {
+    const categories = filters.categories.includes(category)
+      ? filters.categories.filter(selected => selected !== category)
+      : [...filters.categories, category];
+    onChange({ categories });
+  };
+
+  // A thumb resting on the edge of the range means "no limit"
+  const changeMin = (value: number) => {
+    if (!bounds) return;
+    const next = Math.min(value, maxValue);
+    onChange({ minPrice: next <= bounds.min ? null : next });
+  };
+
+  const changeMax = (value: number) => {
+    if (!bounds) return;
+    const next = Math.max(value, minValue);
+    onChange({ maxPrice: next >= bounds.max ? null : next });
+  };
+
+  const span = bounds && bounds.max > bounds.min ? bounds.max - bounds.min : 1;
+  const trackStyle = bounds
+    ? {
+      left: `${((minValue - bounds.min) / span) * 100}%`,
+      right: `${100 - ((maxValue - bounds.min) / span) * 100}%`,
+    }
+    : undefined;
+
+  return (
+    <aside className="filter-sidebar" aria-label="Filters">
+      <div className="filter-sidebar-header">
+        <span className="filter-result-count" aria-live="polite">
+          {resultCount} product{resultCount === 1 ? '' : 's'}
+        </span>
+        {hasActiveFilters(filters) && (
+          <button type="button" className="filter-reset" onClick={onReset}>
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="filter-section">
+        <label htmlFor="filter-sort" className="filter-section-title">Sort by</label>
+        <select
+          id="filter-sort"
+          className="filter-sort"
+          value={filters.sort}
+          onChange={(e) => onChange({ sort: e.target.value as SortOption })}
+        >
+          {(Object.keys(SORT_LABELS) as SortOption[]).map(option => (
+            <option key={option} value={option}>
+              {option === 'relevance' && searching ? 'Relevance' : SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {facets.length > 0 && (
+        <fieldset className="filter-section">
+          <legend className="filter-section-title">Categories</legend>
+          <ul className="filter-options">
+            {facets.map(({ category, count }) => {
+              const checked = filters.categories.includes(category);
+              return (
+                <li key={category}>
+                  <label className={`filter-option ${count === 0 && !checked ? 'disabled' : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={count === 0 && !checked}
+                      onChange={() => toggleCategory(category)}
+                    />
+                    <span className="filter-option-label">{category}</span>
+                    <span className="filter-option-count">{count}</span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        </fieldset>
+      )}
+
+      {bounds && bounds.max > bounds.min && (
+        <fieldset className="filter-section">
+          <legend className="filter-section-title">Price</legend>
+          <div className="price-range">
+            <div className="price-range-track">
+              <div className="price-range-selected" style={trackStyle} />
+            </div>
+            <input
+              type="range"
+              className="price-range-input"
+              min={bounds.min}
+              max={bounds.max}
+              step={1}
+              value={minValue}
+              onChange={(e) => changeMin(Number(e.target.value))}
+              aria-label="Minimum price"
+              aria-valuetext={formatPrice(minValue)}
+            />
+            <input
+              type="range"
+              className="price-range-input"
+              min={bounds.min}
+              max={bounds.max}
+              step={1}
+              value={maxValue}
+              onChange={(e) => changeMax(Number(e.target.value))}
+              aria-label="Maximum price"
+              aria-valuetext={formatPrice(maxValue)}
+            />
+          </div>
+          <div className="price-range-values">
+            <span>{formatPrice(minValue)}</span>
+            <span>{formatPrice(maxValue)}</span>
+          </div>
+        </fieldset>
+      )}
+    </aside>
+  );
+};
+
+export default FilterSidebar;
@@ -3,10 +3,13 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { DescribeType } from '../services/describeService';
 import { useDescribe } from '../hooks/useDescribe';
+import { useObjectUrl } from '../hooks/useObjectUrl';
 import { Product } from '../types/Product';
-import { formatPrice } from '../utils/formatters';
 import ImageUpload from './ImageUpload';
 import LoadingSpinner from './LoadingSpinner';
+import StreamingStatus from './StreamingStatus';
+import ErrorMessage from './ErrorMessage';
+import { useCurrency } from '../context/CurrencyContext';
 
 interface ImageDescribeProps {
   onClose: () => void;
@@ -19,6 +22,7 @@ const ImageDescribe: React.FC<ImageDescribeProps> = ({
   defaultType = 'product',
   product
 }) => {
+  const { formatPrice } = useCurrency();
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [describeType, setDescribeType] = useState<DescribeType>(defaultType);
   const [copySuccessDescription, setCopySuccessDescription] = useState(false);
@@ -28,13 +32,17 @@ const ImageDescribe: React.FC<ImageDescribeProps> = ({
   const [isPaused, setIsPaused] = useState(false);
   const [speechSupported, setSpeechSupported] = useState(false);
   const speechRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const selectedImageUrl = useObjectUrl(selectedImage);
 
   const {
     isLoading,
+    retry,
     error,
     result,
     altText,
+    partial,
     describeImage,
+    cancel,
     reset,
     copyDescription,
     copyAltText
@@ -285,7 +293,7 @@ const ImageDescribe: React.FC<ImageDescribeProps> = ({
               {/* Action Buttons */}
               <div className="describe-actions">
                 {isLoading ? (
-                  <LoadingSpinner message="Analyzing image with AI..." />
+                  <LoadingSpinner message="Analyzing image with AI..." retry={retry} onCancel={cancel} />
                 ) : (
                   <button
                     className="btn btn-primary btn-large describe-button"
@@ -295,7 +303,7 @@ const ImageDescribe: React.FC<ImageDescribeProps> = ({
                     Describe Image
                   </button>
                 )}
-                {error && <div className="error-message">{error}</div>}
+                {error && <ErrorMessage variant="inline" error={error} onRetry={handleDescribe} />}
               </div>
             </div>
           ) : (
@@ -303,10 +311,10 @@ const ImageDescribe: React.FC<ImageDescribeProps> = ({
               <h3>Description Generated</h3>
 
               {/* Image Preview */}
-              {selectedImage && (
+              {selectedImageUrl && (
                 <div className="result-image-preview">
                   <img
-                    src={URL.createObjectURL(selectedImage)}
+                    src={selectedImageUrl}
                     alt="Analyzed image"
                     className="analyzed-image"
                   />
@@ -397,6 +405,7 @@ const ImageDescribe: React.FC<ImageDescribeProps> = ({
                     </p>
                   )}
                 </div>
+                <StreamingStatus streaming={isLoading} partial={partial} onCancel={cancel} />
               </div>
 
               {/* Alt Text Suggestion */}
@@ -424,9 +433,11 @@ const ImageDescribe: React.FC<ImageDescribeProps> = ({
               <div className="meta-section">
                 <h4>Analysis Details</h4>
                 <div className="meta-grid">
-                  <div className="meta-item">
-                    <strong>Image ID:</strong> <code>{result.image_id}</code>
-                  </div>
+                  {result.image_id && (
+                    <div className="meta-item">
+                      <strong>Image ID:</strong> <code>{result.image_id}</code>
+                    </div>
+                  )}
                   <div className="meta-item">
                     <strong>Analysis Type:</strong> {describeType === 'product' ? 'Product' : ' Person'}
                   </div>
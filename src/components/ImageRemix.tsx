@@ -1,81 +1,60 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { Product } from '../types/Product';
+import { RemixService } from '../services/remixService';
 import { useRemix } from '../hooks/useRemix';
+import { useRemixGallery } from '../hooks/useRemixGallery';
+import { RemixRecord } from '../utils/remixGallery';
+import {
+  DEFAULT_SCENE,
+  RemixPromptRef,
+  SCENE_PRESETS,
+  ScenePresetId,
+  getPromptTemplate,
+  promptVariables,
+  renderPrompt,
+  templatesForProduct,
+} from '../utils/remixPrompts';
 import ImageUpload from './ImageUpload';
 import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+import RemixGallery from './RemixGallery';
+import OutfitRemix from './OutfitRemix';
 
 interface ImageRemixProps {
   product: Product;
   onClose: () => void;
 }
 
+// Everything needed to run a remix again, e.g. from the gallery or after an error
+interface RemixRun {
+  photo: File;
+  prompt: string;
+  productId: string;
+  productName: string;
+  productPicture: string;
+  template?: RemixPromptRef;  // Unset for custom prompts
+}
+
 const ImageRemix: React.FC<ImageRemixProps> = ({ product, onClose }) => {
   const [userImage, setUserImage] = useState<File | null>(null);
   const [productImageFile, setProductImageFile] = useState<File | null>(null);
-  const [prompt, setPrompt] = useState('');
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [scene, setScene] = useState<ScenePresetId>(DEFAULT_SCENE);
   const [customPrompt, setCustomPrompt] = useState('');
   const [useCustomPrompt, setUseCustomPrompt] = useState(false);
+  const [view, setView] = useState<'create' | 'outfit' | 'gallery'>('create');
+  const [outfitRerun, setOutfitRerun] = useState<RemixRecord | null>(null);
+  const lastRunRef = useRef<RemixRun | null>(null);
 
-  const { isLoading, error, resultUrl, remixImages, reset, downloadResult } = useRemix();
-
-  // Predefined prompts based on product category
-  const getDefaultPrompts = (product: Product): string[] => {
-    const category = (product.categories && product.categories.length > 0)
-      ? product.categories[0].toLowerCase()
-      : '';
-
-    const prompts: Record<string, string[]> = {
-      'accessories': [
-        `Place the ${product.name.toLowerCase()} on the person in a natural and stylish way.`,
-        `Show the person wearing the ${product.name.toLowerCase()} elegantly.`,
-        `Create a natural photo of the person using the ${product.name.toLowerCase()}.`,
-      ],
-      'clothing': [
-        `Dress the person with the ${product.name.toLowerCase()} in a fashionable way.`,
-        `Show the person wearing the ${product.name.toLowerCase()} stylishly.`,
-        `Create a natural outfit with the person wearing the ${product.name.toLowerCase()}.`,
-      ],
-      'footwear': [
-        `Show the person wearing the ${product.name.toLowerCase()} on their feet naturally.`,
-        `Place the ${product.name.toLowerCase()} on the person's feet in a stylish way.`,
-        `Create a natural photo of the person wearing the ${product.name.toLowerCase()}.`,
-      ],
-      'beauty': [
-        `Show the person using the ${product.name.toLowerCase()} in a natural way.`,
-        `Create a lifestyle photo of the person with the ${product.name.toLowerCase()}.`,
-        `Place the ${product.name.toLowerCase()} near the person in a natural setting.`,
-      ],
-      'kitchen': [
-        `Show the person using the ${product.name.toLowerCase()} in a kitchen setting.`,
-        `Create a lifestyle photo of the person with the ${product.name.toLowerCase()}.`,
-        `Place the ${product.name.toLowerCase()} in the person's hands naturally.`,
-      ],
-      'home': [
-        `Show the person with the ${product.name.toLowerCase()} in a home setting.`,
-        `Create a lifestyle photo featuring the person and the ${product.name.toLowerCase()}.`,
-        `Place the ${product.name.toLowerCase()} near the person in a natural way.`,
-      ],
-    };
+  const { isLoading, retry, error, resultUrl, remixImages, cancel, reset, downloadResult } = useRemix();
+  const gallery = useRemixGallery();
 
-    return prompts[category] || [
-      `Create a natural photo combining the person with the ${product.name.toLowerCase()}.`,
-      `Show the person with the ${product.name.toLowerCase()} in a lifestyle setting.`,
-      `Blend the person and ${product.name.toLowerCase()} in a natural way.`,
-    ];
-  };
-
-  const defaultPrompts = getDefaultPrompts(product);
-
-  // Convert product image URL to File
-  const convertImageToFile = async (imageUrl: string, filename: string): Promise<File> => {
-    try {
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      return new File([blob], filename, { type: blob.type });
-    } catch (error) {
-      throw new Error('Failed to load product image');
-    }
-  };
+  const templates = useMemo(() => templatesForProduct(product), [product]);
+  const variables = promptVariables(product, scene);
+  const template = templates.find(candidate => candidate.id === templateId) ?? null;
+  const selectedPrompt = useCustomPrompt
+    ? customPrompt.trim()
+    : (template ? renderPrompt(template, variables) : '');
 
   const handleRemix = async () => {
     if (!userImage) {
@@ -83,39 +62,106 @@ const ImageRemix: React.FC<ImageRemixProps> = ({ product, onClose }) => {
       return;
     }
 
-    if (!prompt.trim() && !customPrompt.trim()) {
+    if (!selectedPrompt) {
       alert('Please select or enter a prompt');
       return;
     }
 
+    await runRemix({
+      photo: userImage,
+      prompt: selectedPrompt,
+      productId: product.id,
+      productName: product.name,
+      productPicture: product.picture,
+      template: !useCustomPrompt && template
+        ? { templateId: template.id, version: template.version, scene }
+        : undefined,
+    });
+  };
+
+  // Remixes `run` and saves the result to the gallery
+  const runRemix = async (run: RemixRun) => {
+    lastRunRef.current = run;
+
     try {
       // Convert product image to File if not done yet
-      let productFile = productImageFile;
+      let productFile = run.productId === product.id ? productImageFile : null;
       if (!productFile) {
-        const productImageUrl = product.picture.startsWith('http')
-          ? product.picture
-          : `${window.location.origin}${product.picture}`;
-
-        productFile = await convertImageToFile(
-          productImageUrl,
-          `${product.name.toLowerCase().replace(/\s+/g, '-')}.jpg`
-        );
-        setProductImageFile(productFile);
+        productFile = await RemixService.loadProductImage(run.productPicture, run.productName);
+        if (run.productId === product.id) {
+          setProductImageFile(productFile);
+        }
       }
 
-      const finalPrompt = useCustomPrompt ? customPrompt.trim() : prompt;
-
-      await remixImages({
-        image1: userImage,
+      const result = await remixImages({
+        image1: run.photo,
         image2: productFile,
-        prompt: finalPrompt,
+        prompt: run.prompt,
         stream: false,
       });
+
+      if (result) {
+        await gallery.addRemix({
+          productId: run.productId,
+          productName: run.productName,
+          productPicture: run.productPicture,
+          prompt: run.prompt,
+          image: result,
+          userImage: run.photo,
+          template: run.template,
+        });
+      }
     } catch (error) {
       console.error('Remix failed:', error);
     }
   };
 
+  const handleRetry = () => {
+    if (lastRunRef.current) {
+      runRemix(lastRunRef.current);
+    }
+  };
+
+  // Same photo, product and prompt as a saved remix, for a fresh take
+  const handleRerun = (remix: RemixRecord) => {
+    if (remix.outfit) {
+      setOutfitRerun(remix);
+      setView('outfit');
+      return;
+    }
+
+    const photo = remix.userImage instanceof File
+      ? remix.userImage
+      : new File([remix.userImage], 'photo.jpg', { type: remix.userImage.type });
+
+    // Show the preset again while its wording is unchanged; otherwise the exact prompt as custom text
+    const preset = remix.template
+      && remix.productId === product.id
+      && getPromptTemplate(remix.template.templateId)?.version === remix.template.version
+      ? remix.template
+      : null;
+
+    reset();
+    setView('create');
+    setUserImage(photo);
+    if (preset) {
+      setTemplateId(preset.templateId);
+      setScene(preset.scene);
+      setUseCustomPrompt(false);
+    } else {
+      setUseCustomPrompt(true);
+      setCustomPrompt(remix.prompt);
+    }
+    runRemix({
+      photo,
+      prompt: remix.prompt,
+      productId: remix.productId,
+      productName: remix.productName,
+      productPicture: remix.productPicture,
+      template: remix.template,
+    });
+  };
+
   const handleDownload = () => {
     const filename = `remix-${product.name.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}.png`;
     downloadResult(filename);
@@ -125,7 +171,8 @@ const ImageRemix: React.FC<ImageRemixProps> = ({ product, onClose }) => {
     reset();
     setUserImage(null);
     setProductImageFile(null);
-    setPrompt('');
+    setTemplateId(null);
+    setScene(DEFAULT_SCENE);
     setCustomPrompt('');
     setUseCustomPrompt(false);
   };
@@ -137,11 +184,59 @@ const ImageRemix: React.FC<ImageRemixProps> = ({ product, onClose }) => {
         <div className="remix-header">
           <h2>AI Image Remix</h2>
           <p>Combine your photo with <strong>{product.name}</strong></p>
+          <div className="remix-tabs" role="tablist" aria-label="Remix mode">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={view === 'create'}
+              className={`remix-tab ${view === 'create' ? 'active' : ''}`}
+              onClick={() => setView('create')}
+            >
+              Single Item
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={view === 'outfit'}
+              className={`remix-tab ${view === 'outfit' ? 'active' : ''}`}
+              onClick={() => setView('outfit')}
+            >
+              Build an Outfit
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={view === 'gallery'}
+              className={`remix-tab ${view === 'gallery' ? 'active' : ''}`}
+              onClick={() => setView('gallery')}
+            >
+              My Remixes ({gallery.remixes.length})
+            </button>
+          </div>
           <button className="close-button" onClick={onClose}>×</button>
         </div>
 
         <div className="remix-body">
-          {!resultUrl ? (
+          {/* Stays mounted while browsing the other tabs, so a half-built outfit is not lost */}
+          <div hidden={view !== 'outfit'}>
+            <OutfitRemix
+              key={outfitRerun?.id ?? 'new'}
+              product={product}
+              rerun={outfitRerun}
+              onComplete={gallery.addRemix}
+            />
+          </div>
+
+          {view === 'outfit' ? null : view === 'gallery' ? (
+            <RemixGallery
+              remixes={gallery.remixes}
+              isLoading={gallery.isLoading}
+              unavailable={gallery.unavailable}
+              productId={product.id}
+              onRerun={handleRerun}
+              onDelete={gallery.removeRemix}
+            />
+          ) : !resultUrl ? (
             <div className="remix-setup">
               <div className="remix-images">
                 <div className="image-section">
@@ -181,16 +276,35 @@ const ImageRemix: React.FC<ImageRemixProps> = ({ product, onClose }) => {
                 <div className="prompt-options">
                   {!useCustomPrompt ? (
                     <div className="preset-prompts">
-                      {defaultPrompts.map((presetPrompt, index) => (
-                        <label key={index} className="prompt-option">
+                      <div className="scene-presets" role="radiogroup" aria-label="Scene">
+                        {SCENE_PRESETS.map(preset => (
+                          <button
+                            key={preset.id}
+                            type="button"
+                            role="radio"
+                            aria-checked={scene === preset.id}
+                            className={`scene-preset ${scene === preset.id ? 'active' : ''}`}
+                            onClick={() => setScene(preset.id)}
+                            title={preset.description}
+                          >
+                            <strong>{preset.label}</strong>
+                            <span>{preset.description}</span>
+                          </button>
+                        ))}
+                      </div>
+                      {templates.map(candidate => (
+                        <label key={candidate.id} className="prompt-option">
                           <input
                             type="radio"
                             name="prompt"
-                            value={presetPrompt}
-                            checked={prompt === presetPrompt}
-                            onChange={(e) => setPrompt(e.target.value)}
+                            value={candidate.id}
+                            checked={templateId === candidate.id}
+                            onChange={(e) => setTemplateId(e.target.value)}
                           />
-                          <span>{presetPrompt}</span>
+                          <span>
+                            <strong className="prompt-option-label">{candidate.label}</strong>
+                            {renderPrompt(candidate, variables)}
+                          </span>
                         </label>
                       ))}
                       <button
@@ -222,17 +336,17 @@ const ImageRemix: React.FC<ImageRemixProps> = ({ product, onClose }) => {
 
               <div className="remix-actions">
                 {isLoading ? (
-                  <LoadingSpinner message="Creating your AI remix..." />
+                  <LoadingSpinner message="Creating your AI remix..." retry={retry} onCancel={cancel} />
                 ) : (
                   <button
                     className="btn btn-primary btn-large remix-button"
                     onClick={handleRemix}
-                    disabled={!userImage || (!prompt && !customPrompt.trim())}
+                    disabled={!userImage || !selectedPrompt}
                   >
                     Try it right now
                   </button>
                 )}
-                {error && <div className="error-message">{error}</div>}
+                {error && <ErrorMessage variant="inline" error={error} onRetry={handleRetry} />}
               </div>
             </div>
           ) : (
@@ -248,6 +362,9 @@ const ImageRemix: React.FC<ImageRemixProps> = ({ product, onClose }) => {
                 <button className="btn btn-secondary" onClick={handleReset}>
                   Create Another
                 </button>
+                <button className="btn btn-secondary" onClick={() => setView('gallery')}>
+                  View All Remixes
+                </button>
               </div>
             </div>
           )}
@@ -1,23 +1,12 @@
-import React, { useState, createContext, useContext } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigationType } from 'react-router-dom';
 import SearchBar from './SearchBar';
 import ImageDescribe from './ImageDescribe';
 import SmartProductSell from './SmartProductSell';
-
-interface SearchContextType {
-  searchQuery: string;
-  setSearchQuery: (query: string) => void;
-}
-
-const SearchContext = createContext<SearchContextType | undefined>(undefined);
-
-export const useSearch = () => {
-  const context = useContext(SearchContext);
-  if (!context) {
-    throw new Error('useSearch must be used within a SearchProvider');
-  }
-  return context;
-};
+import { useCart } from '../context/CartContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { ShoppingCart } from 'lucide-react';
+import { useSearchQuery } from '../hooks/useSearchQuery';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -26,11 +15,21 @@ interface LayoutProps {
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [showDescribe, setShowDescribe] = useState(false);
   const [showSmartSell, setShowSmartSell] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  const { query: searchQuery, setQuery: setSearchQuery } = useSearchQuery();
+  const { itemCount } = useCart();
+  const { selectedCurrency, currencies, setCurrency } = useCurrency();
+  const { pathname } = useLocation();
+  const navigationType = useNavigationType();
+
+  // New pages open at the top; Back/Forward (POP) is left to the page to restore
+  useEffect(() => {
+    if (navigationType === 'PUSH') {
+      window.scrollTo(0, 0);
+    }
+  }, [pathname, navigationType]);
 
   return (
-    <SearchContext.Provider value={{ searchQuery, setSearchQuery }}>
-      <div className="app-layout">
+    <div className="app-layout">
       <header className="app-header">
         <div className="navbar-container">
           <Link to="/" className="navbar-logo">
@@ -40,11 +39,22 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <div className="navbar-search">
             <SearchBar
               value={searchQuery}
-              onChange={setSearchQuery}
+              onSearch={setSearchQuery}
             />
           </div>
 
           <div className="navbar-actions">
+            <select
+              className="navbar-currency"
+              value={selectedCurrency}
+              onChange={(e) => setCurrency(e.target.value)}
+              aria-label="Currency"
+              title="Choose currency"
+            >
+              {currencies.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
             <button
               className="navbar-button"
               onClick={() => setShowSmartSell(true)}
@@ -59,6 +69,15 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             >
               AI Describe
             </button>
+            <Link
+              to="/cart"
+              className="navbar-button navbar-cart"
+              title="View cart"
+              aria-label={`Cart with ${itemCount} item${itemCount === 1 ? '' : 's'}`}
+            >
+              <ShoppingCart className="navbar-cart-icon" />
+              {itemCount > 0 && <span className="cart-badge">{itemCount}</span>}
+            </Link>
           </div>
         </div>
       </header>
@@ -94,8 +113,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       {showDescribe && (
         <ImageDescribe onClose={() => setShowDescribe(false)} />
       )}
-      </div>
-    </SearchContext.Provider>
+    </div>
   );
 };
 
@@ -1,13 +1,19 @@
 import React from 'react';
+import { X } from 'lucide-react';
+import { RetryProgress } from '../services/apiClient';
 
 interface LoadingSpinnerProps {
   message?: string;
   size?: 'small' | 'medium' | 'large';
+  onCancel?: () => void;  // Shows a Cancel button, for long-running requests
+  retry?: RetryProgress | null;
 }
 
 const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   message = 'Loading...',
-  size = 'medium'
+  size = 'medium',
+  onCancel,
+  retry
 }) => {
   return (
     <div className={`loading-container loading-${size}`}>
@@ -15,6 +21,17 @@ const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
         <div className="spinner"></div>
       </div>
       <p className="loading-message">{message}</p>
+      {retry && (
+        <p className="loading-retry" role="status">
+          Retrying {retry.attempt}/{retry.retries}…
+        </p>
+      )}
+      {onCancel && (
+        <button type="button" className="btn btn-secondary loading-cancel" onClick={onCancel}>
+          <X className="btn-icon" aria-hidden="true" />
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Product } from '../types/Product';
+import { RemixService } from '../services/remixService';
+import { useProducts } from '../hooks/useProducts';
+import { MAX_OUTFIT_ITEMS, useOutfitRemix } from '../hooks/useOutfitRemix';
+import { NewRemixRecord, RemixOutfitItem, RemixRecord } from '../utils/remixGallery';
+import { buildSearchIndex, searchIndex } from '../utils/searchIndex';
+import BlobImage from './BlobImage';
+import ImageUpload from './ImageUpload';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+interface OutfitRemixProps {
+  product: Product;  // Always the first item of a new outfit
+  rerun?: RemixRecord | null;  // A saved outfit remix to generate again
+  onComplete: (remix: NewRemixRecord) => void;
+}
+
+const MAX_PICKER_RESULTS = 6;
+
+const toOutfitItem = (product: Product): RemixOutfitItem => ({
+  productId: product.id,
+  productName: product.name,
+  productPicture: product.picture,
+});
+
+const toFile = (blob: Blob): File =>
+  blob instanceof File ? blob : new File([blob], 'photo.jpg', { type: blob.type });
+
+const OutfitRemix: React.FC<OutfitRemixProps> = ({ product, rerun, onComplete }) => {
+  const [query, setQuery] = useState('');
+  const [rerunPhoto] = useState(() => (rerun ? toFile(rerun.userImage) : null));
+  const { products } = useProducts();
+
+  const {
+    items,
+    photo,
+    steps,
+    result,
+    isLoading,
+    activeStep,
+    retry,
+    error,
+    addItem,
+    removeItem,
+    setPhoto,
+    generate,
+    cancel,
+  } = useOutfitRemix(
+    rerun?.outfit ?? [toOutfitItem(product)],
+    rerunPhoto
+  );
+
+  // A saved outfit opens straight into generating it again
+  useEffect(() => {
+    if (rerun) {
+      handleGenerate();
+    }
+  }, []);
+
+  const index = useMemo(() => buildSearchIndex(products), [products]);
+  const chosen = new Set(items.map(item => item.productId));
+  const candidates = (query.trim() ? searchIndex(index, query).map(match => match.product) : products)
+    .filter(candidate => !chosen.has(candidate.id))
+    .slice(0, MAX_PICKER_RESULTS);
+
+  const firstMissing = steps.findIndex(step => !step.result);
+
+  const handleGenerate = async (fromStep?: number) => {
+    if (!photo) return;
+
+    const chain = await generate(fromStep);
+    if (chain && chain.length > 0) {
+      onComplete({
+        productId: items[0].productId,
+        productName: items.map(item => item.productName).join(' + '),
+        productPicture: items[0].productPicture,
+        prompt: chain.map(step => step.prompt).join('\n'),
+        image: chain[chain.length - 1].image,
+        userImage: photo,
+        outfit: items,
+      });
+    }
+  };
+
+  const handleDownload = () => {
+    if (result) {
+      RemixService.downloadImage(result, `outfit-remix-${Date.now()}.png`);
+    }
+  };
+
+  const generateLabel = firstMissing <= 0
+    ? 'Generate Outfit'
+    : `Continue from step ${firstMissing + 1}`;
+
+  return (
+    <div className="outfit-remix">
+      <div className="image-section">
+        <ImageUpload
+          label="Your Photo"
+          description="A full-length photo works best for outfits"
+          onImageSelect={setPhoto}
+          maxSize={10}
+        />
+        {rerunPhoto && photo === rerunPhoto && (
+          <p className="outfit-photo-note">Using the photo from your saved remix.</p>
+        )}
+      </div>
+
+      <div className="outfit-items">
+        <h4>Your Outfit ({items.length}/{MAX_OUTFIT_ITEMS})</h4>
+        <p className="outfit-items-hint">
+          Each item is added on top of the previous step. Remove one and only the steps after it are generated again.
+        </p>
+        <ol className="outfit-steps">
+          {steps.map((step, stepIndex) => (
+            <li
+              key={step.item.productId}
+              className={`outfit-step ${activeStep === stepIndex ? 'active' : ''}`}
+            >
+              <img src={step.item.productPicture} alt={step.item.productName} className="outfit-step-product" />
+              <div className="outfit-step-info">
+                <span className="outfit-step-number">Step {stepIndex + 1}</span>
+                <strong>{step.item.productName}</strong>
+              </div>
+              <div className="outfit-step-result">
+                {step.result ? (
+                  <BlobImage
+                    blob={step.result}
+                    alt={`After adding ${step.item.productName}`}
+                    className="outfit-step-image"
+                  />
+                ) : (
+                  <span className="outfit-step-pending">
+                    {activeStep === stepIndex ? 'Generating...' : 'Not generated yet'}
+                  </span>
+                )}
+              </div>
+              <div className="outfit-step-actions">
+                {step.result && !isLoading && (
+                  <button
+                    type="button"
+                    className="outfit-step-action"
+                    onClick={() => handleGenerate(stepIndex)}
+                    title="Generate this step and the ones after it again"
+                  >
+                    Redo from here
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="remix-gallery-action danger"
+                  onClick={() => removeItem(step.item.productId)}
+                  disabled={isLoading}
+                  aria-label={`Remove ${step.item.productName} from the outfit`}
+                  title="Remove from outfit"
+                >
+                  <Trash2 className="btn-icon" aria-hidden="true" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {items.length < MAX_OUTFIT_ITEMS && !isLoading && (
+        <div className="outfit-picker">
+          <h4>Add an Item</h4>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search the catalog, e.g. sunglasses"
+            aria-label="Search products to add to the outfit"
+            className="outfit-picker-search"
+          />
+          <ul className="outfit-picker-results">
+            {candidates.map(candidate => (
+              <li key={candidate.id}>
+                <button
+                  type="button"
+                  className="outfit-picker-item"
+                  onClick={() => addItem(toOutfitItem(candidate))}
+                >
+                  <img src={candidate.picture} alt="" />
+                  <span>{candidate.name}</span>
+                  <Plus className="btn-icon" aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="remix-actions">
+        {isLoading ? (
+          <LoadingSpinner
+            message={`Adding item ${(activeStep ?? 0) + 1} of ${items.length}...`}
+            retry={retry}
+            onCancel={cancel}
+          />
+        ) : (
+          <button
+            className="btn btn-primary btn-large remix-button"
+            onClick={() => handleGenerate()}
+            disabled={!photo || firstMissing === -1}
+          >
+            {generateLabel}
+          </button>
+        )}
+        {error && <ErrorMessage variant="inline" error={error} onRetry={() => handleGenerate()} />}
+      </div>
+
+      {result && !isLoading && (
+        <div className="remix-result">
+          <h3>Your Outfit is Ready!</h3>
+          <div className="result-image-container">
+            <BlobImage blob={result} alt="AI outfit remix result" className="result-image" />
+          </div>
+          <div className="result-actions">
+            <button className="btn btn-primary" onClick={handleDownload}>
+              Download Image
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutfitRemix;
@@ -1,23 +1,35 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { formatPrice } from '../utils/formatters';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
 import { useProductByName } from '../hooks/useProducts';
+import { useCart } from '../context/CartContext';
+import { categoryPath } from '../utils/categories';
+import { useCurrency } from '../context/CurrencyContext';
 
 const ProductByName: React.FC = () => {
+  const { formatPrice } = useCurrency();
   const { name } = useParams<{ name: string }>();
   const decodedName = name ? decodeURIComponent(name) : '';
-  const { product, loading, error, refetch } = useProductByName(decodedName);
+  const { product, loading, error, retry, refetch } = useProductByName(decodedName);
+  const [addedToCart, setAddedToCart] = useState(false);
+  const { addItem } = useCart();
+
+  const handleAddToCart = () => {
+    if (!product) return;
+    addItem(product.id);
+    setAddedToCart(true);
+    setTimeout(() => setAddedToCart(false), 2000);
+  };
 
   if (loading) {
-    return <LoadingSpinner message={`Loading product "${decodedName}"...`} />;
+    return <LoadingSpinner message={`Loading product "${decodedName}"...`} retry={retry} />;
   }
 
   if (error) {
     return (
       <ErrorMessage
-        message={error}
+        error={error}
         onRetry={refetch}
       />
     );
@@ -76,9 +88,9 @@ const ProductByName: React.FC = () => {
               <h3>Categories</h3>
               <div className="categories-list">
                 {product.categories.map((category) => (
-                  <span key={category} className="category-tag-large">
+                  <Link key={category} to={categoryPath(category)} className="category-tag-large">
                     {category}
-                  </span>
+                  </Link>
                 ))}
               </div>
             </div>
@@ -94,9 +106,14 @@ const ProductByName: React.FC = () => {
           </div>
 
           <div className="product-actions">
-            <button className="btn btn-primary btn-large">
-              Add to Cart
+            <button className="btn btn-primary btn-large" onClick={handleAddToCart}>
+              {addedToCart ? 'Added to Cart' : 'Add to Cart'}
             </button>
+            {addedToCart && (
+              <Link to="/cart" className="btn btn-secondary">
+                View Cart
+              </Link>
+            )}
             <Link to="/" className="btn btn-secondary">
               ← Back to Products
             </Link>
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Eye } from 'lucide-react';
+import { Product } from '../types/Product';
+import { truncateText } from '../utils/formatters';
+import { highlightSearchTerm } from '../utils/searchHighlight';
+import { SearchMatches } from '../utils/searchIndex';
+import { categoryPath } from '../utils/categories';
+import { useCurrency } from '../context/CurrencyContext';
+
+interface ProductCardProps {
+  product: Product;
+  query?: string;
+  matches?: SearchMatches;
+  badge?: string;
+}
+
+const ProductCard: React.FC<ProductCardProps> = ({ product, query = '', matches, badge }) => {
+  const { formatPrice } = useCurrency();
+
+  return (
+    <div className="product-card">
+      <Link to={`/product/${product.id}`} className="product-link">
+        <div className="product-image-container">
+          {badge && (
+            <div className="product-badge">
+              <span>{badge}</span>
+            </div>
+          )}
+          <img
+            src={product.picture}
+            alt={product.name}
+            className="product-image"
+            onError={(e) => {
+              const target = e.target as HTMLImageElement;
+              if (!target.src.includes('placeholder-product.svg')) {
+                target.src = '/placeholder-product.svg';
+                target.onerror = null;
+              }
+            }}
+          />
+          <div className="product-overlay">
+            <div className="overlay-actions">
+              <button className="overlay-btn">
+                <Eye className="btn-icon" />
+                Quick View
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="product-info">
+          <div className="product-header">
+            <h3 className="product-name">
+              {highlightSearchTerm(product.name, query, matches?.name)}
+            </h3>
+          </div>
+
+          <p className="product-description">
+            {highlightSearchTerm(truncateText(product.description, 100), query, matches?.description)}
+          </p>
+
+          <div className="product-footer">
+            <div className="product-price">
+              {formatPrice(product.price)}
+            </div>
+          </div>
+        </div>
+      </Link>
+
+      {/* Outside the card link: anchors cannot nest */}
+      {product.categories && product.categories.length > 0 && (
+        <div className="product-categories product-card-categories">
+          {product.categories.map((category, index) => (
+            <Link key={category} to={categoryPath(category)} className="category-tag">
+              {highlightSearchTerm(category, query, matches?.categories[index])}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductCard;
@@ -1,28 +1,44 @@
 import React, { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { formatPrice } from '../utils/formatters';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
 import ImageRemix from './ImageRemix';
 import ImageDescribe from './ImageDescribe';
 import FashionAssistant from './FashionAssistant';
+import ShippingEstimator from './ShippingEstimator';
+import Recommendations from './Recommendations';
+import AdBanner from './AdBanner';
+import { toContextKeys } from '../hooks/useAd';
 import { useProduct } from '../hooks/useProducts';
+import { useCart } from '../context/CartContext';
+import { categoryPath } from '../utils/categories';
+import { useCurrency } from '../context/CurrencyContext';
 
 const ProductDetail: React.FC = () => {
+  const { formatPrice } = useCurrency();
   const { id } = useParams<{ id: string }>();
-  const { product, loading, error, refetch } = useProduct(id);
+  const { product, loading, error, retry, refetch } = useProduct(id);
   const [showRemix, setShowRemix] = useState(false);
   const [showDescribe, setShowDescribe] = useState(false);
   const [showFashion, setShowFashion] = useState(false);
+  const [addedToCart, setAddedToCart] = useState(false);
+  const { addItem } = useCart();
+
+  const handleAddToCart = () => {
+    if (!product) return;
+    addItem(product.id);
+    setAddedToCart(true);
+    setTimeout(() => setAddedToCart(false), 2000);
+  };
 
   if (loading) {
-    return <LoadingSpinner message="Loading product details..." />;
+    return <LoadingSpinner message="Loading product details..." retry={retry} />;
   }
 
   if (error) {
     return (
       <ErrorMessage
-        message={error}
+        error={error}
         onRetry={refetch}
       />
     );
@@ -81,9 +97,9 @@ const ProductDetail: React.FC = () => {
               <h3>Categories</h3>
               <div className="categories-list">
                 {product.categories.map((category) => (
-                  <span key={category} className="category-tag-large">
+                  <Link key={category} to={categoryPath(category)} className="category-tag-large">
                     {category}
-                  </span>
+                  </Link>
                 ))}
               </div>
             </div>
@@ -122,15 +138,28 @@ const ProductDetail: React.FC = () => {
 
             {/* Add to Cart - Secondary */}
             <div className="purchase-section">
-              <button className="btn btn-secondary add-to-cart-btn" title="Add to Cart">
+              <button
+                className={`btn btn-secondary add-to-cart-btn ${addedToCart ? 'added' : ''}`}
+                title="Add to Cart"
+                onClick={handleAddToCart}
+              >
                 <span className="cart-icon">🛒</span>
-                Add to Cart
+                {addedToCart ? 'Added to Cart' : 'Add to Cart'}
               </button>
+              {addedToCart && (
+                <Link to="/cart" className="view-cart-link">View cart →</Link>
+              )}
             </div>
+
+            <ShippingEstimator items={[{ product_id: product.id, quantity: 1 }]} />
           </div>
         </div>
       </div>
 
+      <AdBanner contextKeys={toContextKeys(product.categories)} />
+
+      <Recommendations productIds={[product.id]} />
+
       {/* Modal de Remix */}
       {showRemix && (
         <ImageRemix
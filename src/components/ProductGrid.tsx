@@ -0,0 +1,48 @@
+import React from 'react';
+import { Product } from '../types/Product';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { useGridWindow } from '../hooks/useGridWindow';
+
+interface ProductGridProps {
+  products: Product[];
+  renderProduct: (product: Product) => React.ReactNode;
+  resetKey?: string;  // Change it to start over from the first page (e.g. new filters)
+}
+
+const SKELETON_COUNT = 3;
+
+const ProductGrid: React.FC<ProductGridProps> = ({ products, renderProduct, resetKey = '' }) => {
+  const { visibleCount, hasMore, isPending, sentinelRef } = useInfiniteScroll(products.length, resetKey);
+  // Cards scrolled far out of view are unmounted, so a long scroll does not keep the whole catalog in the DOM
+  const { gridRef, start, end, spaceBefore, spaceAfter } = useGridWindow(visibleCount);
+
+  return (
+    <div className="product-grid" aria-busy={isPending} ref={gridRef}>
+      {spaceBefore > 0 && (
+        <div className="product-grid-spacer" style={{ height: spaceBefore }} aria-hidden="true" data-grid-filler />
+      )}
+
+      {products.slice(start, end).map(renderProduct)}
+
+      {spaceAfter > 0 && (
+        <div className="product-grid-spacer" style={{ height: spaceAfter }} aria-hidden="true" data-grid-filler />
+      )}
+
+      {hasMore && Array.from({ length: SKELETON_COUNT }, (_, index) => (
+        <div
+          key={`skeleton-${index}`}
+          ref={index === 0 ? sentinelRef : undefined}
+          className="product-card skeleton"
+          aria-hidden="true"
+          data-grid-filler
+        >
+          <div className="skeleton-image" />
+          <div className="skeleton-line" />
+          <div className="skeleton-line short" />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProductGrid;
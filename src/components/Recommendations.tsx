@@ -0,0 +1,80 @@
+import React, { useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useRecommendations } from '../hooks/useRecommendations';
+import { useCurrency } from '../context/CurrencyContext';
+
+interface RecommendationsProps {
+  productIds: string[];
+  title?: string;
+  limit?: number;
+}
+
+const Recommendations: React.FC<RecommendationsProps> = ({
+  productIds,
+  title = 'You may also like',
+  limit = 8
+}) => {
+  const { products, loading } = useRecommendations(productIds, limit);
+  const { formatPrice } = useCurrency();
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const scrollBy = (direction: 1 | -1) => {
+    const track = trackRef.current;
+    if (track) {
+      track.scrollBy({ left: direction * track.clientWidth * 0.8, behavior: 'smooth' });
+    }
+  };
+
+  if (!loading && products.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="recommendations" aria-label={title}>
+      <div className="recommendations-header">
+        <h3>{title}</h3>
+        {products.length > 2 && (
+          <div className="recommendations-controls">
+            <button className="carousel-button" onClick={() => scrollBy(-1)} aria-label="Previous recommendations">
+              <ChevronLeft />
+            </button>
+            <button className="carousel-button" onClick={() => scrollBy(1)} aria-label="Next recommendations">
+              <ChevronRight />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="recommendations-track">
+          {Array.from({ length: 4 }, (_, index) => (
+            <div key={index} className="recommendation-card skeleton" aria-hidden="true" />
+          ))}
+        </div>
+      ) : (
+        <div className="recommendations-track" ref={trackRef}>
+          {products.map((product) => (
+            <Link key={product.id} to={`/product/${product.id}`} className="recommendation-card">
+              <img
+                src={product.picture}
+                alt={product.name}
+                onError={(e) => {
+                  const target = e.target as HTMLImageElement;
+                  if (!target.src.includes('placeholder-product.svg')) {
+                    target.src = '/placeholder-product.svg';
+                    target.onerror = null;
+                  }
+                }}
+              />
+              <span className="recommendation-name">{product.name}</span>
+              <span className="recommendation-price">{formatPrice(product.price)}</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default Recommendations;
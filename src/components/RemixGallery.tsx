@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Download, RotateCcw, Trash2 } from 'lucide-react';
+import { RemixService } from '../services/remixService';
+import { RemixRecord } from '../utils/remixGallery';
+import { truncateText } from '../utils/formatters';
+import BlobImage from './BlobImage';
+import LoadingSpinner from './LoadingSpinner';
+
+interface RemixGalleryProps {
+  remixes: RemixRecord[];
+  isLoading: boolean;
+  unavailable: boolean;
+  productId: string;  // The product the modal was opened for
+  onRerun: (remix: RemixRecord) => void;
+  onDelete: (id: string) => void;
+}
+
+const MAX_COMPARED = 2;
+
+const formatCreatedAt = (createdAt: number): string =>
+  new Date(createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const RemixGallery: React.FC<RemixGalleryProps> = ({
+  remixes,
+  isLoading,
+  unavailable,
+  productId,
+  onRerun,
+  onDelete,
+}) => {
+  const [scope, setScope] = useState<'product' | 'all'>('product');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const visible = scope === 'product'
+    ? remixes.filter(remix => remix.productId === productId
+      || remix.outfit?.some(item => item.productId === productId))
+    : remixes;
+  const compared = compareIds
+    .map(id => remixes.find(remix => remix.id === id))
+    .filter((remix): remix is RemixRecord => !!remix);
+
+  // Picking a third remix replaces the one picked first
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => (prev.includes(id)
+      ? prev.filter(compareId => compareId !== id)
+      : [...prev, id].slice(-MAX_COMPARED)));
+  };
+
+  const handleDownload = (remix: RemixRecord) => {
+    const filename = `remix-${remix.productName.toLowerCase().replace(/\s+/g, '-')}-${remix.createdAt}.png`;
+    RemixService.downloadImage(remix.image, filename);
+  };
+
+  const handleDelete = (remix: RemixRecord) => {
+    if (!window.confirm('Delete this remix? This cannot be undone.')) return;
+    setCompareIds(prev => prev.filter(id => id !== remix.id));
+    onDelete(remix.id);
+  };
+
+  const renderList = () => {
+    if (isLoading) {
+      return <LoadingSpinner size="small" message="Loading your remixes..." />;
+    }
+
+    if (unavailable) {
+      return (
+        <p className="remix-gallery-empty">
+          Your remix history is not available in this browser, so new remixes will not be saved.
+        </p>
+      );
+    }
+
+    if (visible.length === 0) {
+      return (
+        <p className="remix-gallery-empty">
+          {scope === 'product'
+            ? 'No remixes of this product yet. The images you create are saved here.'
+            : 'No remixes yet. The images you create are saved here.'}
+        </p>
+      );
+    }
+
+    return (
+      <ul className="remix-gallery-grid">
+        {visible.map(remix => {
+          const selected = compareIds.includes(remix.id);
+
+          return (
+            <li key={remix.id} className={`remix-gallery-item ${selected ? 'selected' : ''}`}>
+              <BlobImage blob={remix.image} alt={`${remix.productName}: ${remix.prompt}`} className="remix-gallery-image" />
+              <div className="remix-gallery-info">
+                {scope === 'all' && <strong>{remix.productName}</strong>}
+                <p className="remix-gallery-prompt" title={remix.prompt}>
+                  {truncateText(remix.prompt, 90)}
+                </p>
+                <time dateTime={new Date(remix.createdAt).toISOString()}>
+                  {formatCreatedAt(remix.createdAt)}
+                </time>
+              </div>
+              <div className="remix-gallery-actions">
+                <label className="remix-gallery-compare">
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={() => toggleCompare(remix.id)}
+                  />
+                  Compare
+                </label>
+                <button
+                  type="button"
+                  className="remix-gallery-action"
+                  onClick={() => onRerun(remix)}
+                  aria-label="Re-run this prompt"
+                  title="Re-run this prompt"
+                >
+                  <RotateCcw className="btn-icon" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  className="remix-gallery-action"
+                  onClick={() => handleDownload(remix)}
+                  aria-label="Download this remix"
+                  title="Download"
+                >
+                  <Download className="btn-icon" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  className="remix-gallery-action danger"
+                  onClick={() => handleDelete(remix)}
+                  aria-label="Delete this remix"
+                  title="Delete"
+                >
+                  <Trash2 className="btn-icon" aria-hidden="true" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="remix-gallery">
+      <div className="remix-gallery-toolbar">
+        <div className="remix-gallery-scope" role="group" aria-label="Show remixes of">
+          <button
+            type="button"
+            className={`remix-gallery-scope-btn ${scope === 'product' ? 'active' : ''}`}
+            aria-pressed={scope === 'product'}
+            onClick={() => setScope('product')}
+          >
+            This product
+          </button>
+          <button
+            type="button"
+            className={`remix-gallery-scope-btn ${scope === 'all' ? 'active' : ''}`}
+            aria-pressed={scope === 'all'}
+            onClick={() => setScope('all')}
+          >
+            All products
+          </button>
+        </div>
+        <p className="remix-gallery-hint">Tick two remixes to compare them side by side.</p>
+      </div>
+
+      {compared.length === MAX_COMPARED && (
+        <div className="remix-compare" aria-label="Remix comparison">
+          <div className="remix-compare-images">
+            {compared.map(remix => (
+              <figure key={remix.id} className="remix-compare-item">
+                <BlobImage blob={remix.image} alt={`${remix.productName}: ${remix.prompt}`} className="remix-compare-image" />
+                <figcaption>{remix.prompt}</figcaption>
+              </figure>
+            ))}
+          </div>
+          <button type="button" className="btn btn-secondary" onClick={() => setCompareIds([])}>
+            Clear comparison
+          </button>
+        </div>
+      )}
+
+      {renderList()}
+    </div>
+  );
+};
+
+export default RemixGallery;
@@ -1,27 +1,242 @@
-import React from 'react';
+import React, { useState, useEffect, useId } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Clock, Search, Tag } from 'lucide-react';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { SearchSuggestion, useSearchSuggestions } from '../hooks/useSearchSuggestions';
+import { addRecentSearch } from '../utils/recentSearches';
+import { categoryPath } from '../utils/categories';
+import { highlightSearchTerm } from '../utils/searchHighlight';
 
 interface SearchBarProps {
   value: string;
-  onChange: (value: string) => void;
+  onSearch: (value: string) => void;
   placeholder?: string;
 }
 
+const SUGGESTION_DEBOUNCE_MS = 150;
+
+const GROUP_LABELS: Record<SearchSuggestion['type'], string> = {
+  product: 'Products',
+  category: 'Categories',
+  recent: 'Recent searches',
+};
+
 const SearchBar: React.FC<SearchBarProps> = ({
   value,
-  onChange,
-  placeholder = "Search products as you type..."
+  onSearch,
+  placeholder = "Search products..."
 }) => {
+  const navigate = useNavigate();
+  const listboxId = useId();
+  const [inputValue, setInputValue] = useState(value);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const debouncedValue = useDebouncedValue(inputValue, SUGGESTION_DEBOUNCE_MS);
+  const { suggestions, loading, clearRecent } = useSearchSuggestions(debouncedValue, open);
+
+  // Follow the URL when it changes from elsewhere (back/forward, links)
+  useEffect(() => {
+    setInputValue(value);
+  }, [value]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [suggestions]);
+
+  const expanded = open && (suggestions.length > 0 || (loading && !!inputValue.trim()));
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  const close = () => {
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const submit = (query: string) => {
+    addRecentSearch(query);
+    setInputValue(query);
+    close();
+    onSearch(query);
+  };
+
+  const select = (suggestion: SearchSuggestion) => {
+    switch (suggestion.type) {
+      case 'product':
+        addRecentSearch(inputValue);
+        close();
+        navigate(`/product/${suggestion.product.id}`);
+        break;
+      case 'category':
+        addRecentSearch(inputValue);
+        close();
+        navigate(categoryPath(suggestion.category));
+        break;
+      case 'recent':
+        submit(suggestion.query);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!open) {
+          setOpen(true);
+        } else if (suggestions.length > 0) {
+          setActiveIndex(index => (index + 1) % suggestions.length);
+        }
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (open && suggestions.length > 0) {
+          setActiveIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+        }
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (expanded && activeIndex >= 0 && suggestions[activeIndex]) {
+          select(suggestions[activeIndex]);
+        } else {
+          submit(inputValue);
+        }
+        break;
+      case 'Escape':
+        if (expanded) {
+          e.preventDefault();
+          close();
+        } else if (inputValue) {
+          e.preventDefault();
+          setInputValue('');
+        }
+        break;
+    }
+  };
+
+  const renderSuggestion = (suggestion: SearchSuggestion) => {
+    switch (suggestion.type) {
+      case 'product':
+        return (
+          <>
+            <img
+              src={suggestion.product.picture}
+              alt=""
+              className="search-suggestion-thumb"
+              onError={(e) => {
+                const target = e.target as HTMLImageElement;
+                if (!target.src.includes('placeholder-product.svg')) {
+                  target.src = '/placeholder-product.svg';
+                  target.onerror = null;
+                }
+              }}
+            />
+            <span className="search-suggestion-text">
+              {highlightSearchTerm(suggestion.product.name, debouncedValue, suggestion.matches.name)}
+            </span>
+          </>
+        );
+      case 'category':
+        return (
+          <>
+            <Tag className="search-suggestion-icon" aria-hidden="true" />
+            <span className="search-suggestion-text">
+              {highlightSearchTerm(suggestion.category, debouncedValue)}
+            </span>
+            <span className="search-suggestion-meta">{suggestion.count}</span>
+          </>
+        );
+      case 'recent':
+        return (
+          <>
+            <Clock className="search-suggestion-icon" aria-hidden="true" />
+            <span className="search-suggestion-text">{suggestion.query}</span>
+          </>
+        );
+    }
+  };
+
+  const groups = (['product', 'category', 'recent'] as const)
+    .map(type => ({
+      type,
+      items: suggestions
+        .map((suggestion, index) => ({ suggestion, index }))
+        .filter(({ suggestion }) => suggestion.type === type),
+    }))
+    .filter(group => group.items.length > 0);
+
   return (
     <div className="search-form">
       <div className="search-input-group">
+        <Search className="search-input-icon" aria-hidden="true" />
         <input
           type="text"
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
+          role="combobox"
+          aria-expanded={expanded}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          aria-label="Search products"
+          value={inputValue}
+          onChange={(e) => {
+            setInputValue(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={close}
+          onKeyDown={handleKeyDown}
           placeholder={placeholder}
           className="search-input"
+          autoComplete="off"
         />
       </div>
+
+      <div
+        id={listboxId}
+        role="listbox"
+        aria-label="Search suggestions"
+        className="search-suggestions"
+        hidden={!expanded}
+      >
+        {loading && suggestions.length === 0 && (
+          <div className="search-suggestions-status">Loading suggestions...</div>
+        )}
+        {groups.map(group => (
+          <div key={group.type} role="group" aria-labelledby={`${listboxId}-${group.type}`}>
+            <div id={`${listboxId}-${group.type}`} role="presentation" className="search-suggestions-heading">
+              {GROUP_LABELS[group.type]}
+              {group.type === 'recent' && (
+                <button
+                  type="button"
+                  className="search-suggestions-clear"
+                  tabIndex={-1}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={clearRecent}
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {group.items.map(({ suggestion, index }) => (
+              <div
+                key={suggestion.id}
+                id={optionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`search-suggestion ${index === activeIndex ? 'active' : ''}`}
+                // Keep focus in the input so blur does not close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => select(suggestion)}
+              >
+                {renderSuggestion(suggestion)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="sr-only" aria-live="polite">
+        {expanded && suggestions.length > 0 ? `${suggestions.length} suggestions available` : ''}
+      </div>
     </div>
   );
 };
@@ -1,21 +1,30 @@
-import React, { useEffect } from 'react';
+import React, { useMemo } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
-import { formatPrice, truncateText } from '../utils/formatters';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
 import { useProductSearch } from '../hooks/useProducts';
+import ProductCard from './ProductCard';
+import ProductGrid from './ProductGrid';
+import FilterSidebar from './FilterSidebar';
+import { useProductFilters } from '../hooks/useProductFilters';
+import { applyFilters } from '../utils/productFilters';
+import AdBanner from './AdBanner';
+import { toContextKeys } from '../hooks/useAd';
 
 const SearchResults: React.FC = () => {
   const [searchParams] = useSearchParams();
   const query = searchParams.get('q') || '';
 
-  const { results: products, loading, error, searchProducts } = useProductSearch();
+  const { results, loading, error, retry, refetch } = useProductSearch(query);
+  const { filters, filtersKey, updateFilters, resetFilters } = useProductFilters();
 
-  useEffect(() => {
-    if (query.trim()) {
-      searchProducts(query);
-    }
-  }, [query, searchProducts]);
+  // Results arrive ranked, so the 'relevance' sort is simply their order
+  const products = useMemo(() => results.map(result => result.product), [results]);
+  const visibleProducts = useMemo(() => applyFilters(products, filters), [products, filters]);
+  const matchesById = useMemo(
+    () => new Map(results.map(result => [result.product.id, result.matches])),
+    [results]
+  );
 
   if (!query.trim()) {
     return (
@@ -30,14 +39,14 @@ const SearchResults: React.FC = () => {
   }
 
   if (loading) {
-    return <LoadingSpinner message={`Searching for "${query}"...`} />;
+    return <LoadingSpinner message={`Searching for "${query}"...`} retry={retry} />;
   }
 
   if (error) {
     return (
       <ErrorMessage
-        message={error}
-        onRetry={() => searchProducts(query)}
+        error={error}
+        onRetry={refetch}
       />
     );
   }
@@ -47,14 +56,16 @@ const SearchResults: React.FC = () => {
       <div className="page-header">
         <h1>🔍 Search Results</h1>
         <p className="search-info">
-          {products.length > 0
-            ? `Found ${products.length} result${products.length === 1 ? '' : 's'} for "${query}"`
+          {results.length > 0
+            ? `Found ${results.length} result${results.length === 1 ? '' : 's'} for "${query}"`
             : `No results found for "${query}"`
           }
         </p>
       </div>
 
-      {products.length === 0 ? (
+      <AdBanner contextKeys={toContextKeys(query)} />
+
+      {results.length === 0 ? (
         <div className="empty-state">
           <h2>No products found</h2>
           <p>Try searching with different keywords.</p>
@@ -71,49 +82,40 @@ const SearchResults: React.FC = () => {
           </Link>
         </div>
       ) : (
-        <div className="product-grid">
-          {products.map((product) => (
-            <div key={product.id} className="product-card">
-              <Link to={`/product/${product.id}`} className="product-link">
-                <div className="product-image-container">
-                  <img
-                    src={product.picture}
-                    alt={product.name}
-                    className="product-image"
-                    onError={(e) => {
-                      const target = e.target as HTMLImageElement;
-                      if (!target.src.includes('placeholder-product.svg')) {
-                        target.src = '/placeholder-product.svg';
-                        target.onerror = null;
-                      }
-                    }}
-                  />
-                </div>
-
-                <div className="product-info">
-                  <h3 className="product-name">{product.name}</h3>
+        <div className="catalog-layout">
+          <FilterSidebar
+            products={products}
+            filters={filters}
+            onChange={updateFilters}
+            onReset={resetFilters}
+            resultCount={visibleProducts.length}
+            searching
+          />
 
-                  <p className="product-description">
-                    {truncateText(product.description, 120)}
-                  </p>
-
-                  <div className="product-price">
-                    {formatPrice(product.price)}
-                  </div>
-
-                  {product.categories && product.categories.length > 0 && (
-                    <div className="product-categories">
-                      {product.categories.map((category) => (
-                        <span key={category} className="category-tag">
-                          {category}
-                        </span>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              </Link>
-            </div>
-          ))}
+          <div className="catalog-main">
+            {visibleProducts.length === 0 ? (
+              <div className="empty-state">
+                <h2>No results match these filters</h2>
+                <p>{results.length} result{results.length === 1 ? '' : 's'} for "{query}" are hidden by the current filters.</p>
+                <button className="btn btn-primary" onClick={resetFilters}>
+                  Clear filters
+                </button>
+              </div>
+            ) : (
+              <ProductGrid
+                products={visibleProducts}
+                resetKey={`${query}|${filtersKey}`}
+                renderProduct={(product) => (
+                  <ProductCard
+                    key={product.id}
+                    product={product}
+                    query={query}
+                    matches={matchesById.get(product.id)}
+                  />
+                )}
+              />
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { CartItem } from '../types/Cart';
+import { useShippingQuote, isValidDestination } from '../hooks/useShippingQuote';
+import { useCurrency } from '../context/CurrencyContext';
+import ErrorMessage from './ErrorMessage';
+
+interface ShippingEstimatorProps {
+  items: CartItem[];
+  title?: string;
+}
+
+const ShippingEstimator: React.FC<ShippingEstimatorProps> = ({
+  items,
+  title = 'Estimate shipping'
+}) => {
+  const { destination, setDestination, quote, loading, error, estimate } = useShippingQuote(items);
+  const { formatMoney } = useCurrency();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    estimate();
+  };
+
+  return (
+    <form className="shipping-estimator" onSubmit={handleSubmit}>
+      <h4>{title}</h4>
+      <div className="shipping-estimator-fields">
+        <input
+          type="text"
+          inputMode="numeric"
+          placeholder="Zip code"
+          aria-label="Zip code"
+          autoComplete="postal-code"
+          value={destination.zip_code}
+          onChange={(e) => setDestination({ ...destination, zip_code: e.target.value })}
+        />
+        <input
+          type="text"
+          placeholder="Country"
+          aria-label="Country"
+          autoComplete="country-name"
+          value={destination.country}
+          onChange={(e) => setDestination({ ...destination, country: e.target.value })}
+        />
+        <button
+          type="submit"
+          className="btn btn-secondary"
+          disabled={loading || !isValidDestination(destination)}
+        >
+          {loading ? 'Estimating...' : 'Estimate'}
+        </button>
+      </div>
+      {quote && !loading && (
+        <p className="shipping-estimator-result" aria-live="polite">
+          Estimated shipping: <strong>{formatMoney(quote)}</strong>
+        </p>
+      )}
+      {error && <ErrorMessage variant="inline" error={error} onRetry={() => estimate()} />}
+    </form>
+  );
+};
+
+export default ShippingEstimator;
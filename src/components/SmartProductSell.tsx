@@ -5,6 +5,8 @@ import { Link } from 'react-router-dom';
 import { useSmartSell } from '../hooks/useSmartSell';
 import ImageUpload from './ImageUpload';
 import LoadingSpinner from './LoadingSpinner';
+import StreamingStatus from './StreamingStatus';
+import ErrorMessage from './ErrorMessage';
 
 interface SmartProductSellProps {
   onClose: () => void;
@@ -21,9 +23,12 @@ const SmartProductSell: React.FC<SmartProductSellProps> = ({ onClose }) => {
 
   const {
     isLoading,
+    retry,
     error,
     result,
+    partial,
     getRecommendation,
+    cancel,
     reset,
     copyRecommendation,
   } = useSmartSell();
@@ -127,7 +132,6 @@ const SmartProductSell: React.FC<SmartProductSellProps> = ({ onClose }) => {
         image: userImage,
         text: queryText.trim(),
         model_name: 'gemini-1.5-pro',
-        stream: false,
       });
     } catch (error) {
       console.error('Recommendation failed:', error);
@@ -216,7 +220,7 @@ const SmartProductSell: React.FC<SmartProductSellProps> = ({ onClose }) => {
               {/* Action Buttons */}
               <div className="smart-sell-actions">
                 {isLoading ? (
-                  <LoadingSpinner message="Analyzing and searching for perfect products..." />
+                  <LoadingSpinner message="Analyzing and searching for perfect products..." retry={retry} onCancel={cancel} />
                 ) : (
                   <button
                     className="btn btn-primary smart-sell-btn"
@@ -229,10 +233,7 @@ const SmartProductSell: React.FC<SmartProductSellProps> = ({ onClose }) => {
 
                 {error && (
                   <div className="smart-sell-error">
-                    <p>Error: {error}</p>
-                    <button className="btn btn-secondary" onClick={reset}>
-                      Try Again
-                    </button>
+                    <ErrorMessage variant="inline" error={error} onRetry={handleGetRecommendation} />
                   </div>
                 )}
               </div>
@@ -240,34 +241,36 @@ const SmartProductSell: React.FC<SmartProductSellProps> = ({ onClose }) => {
           ) : (
             <div className="smart-sell-results">
 
-              {/* Product Found Section */}
-              <div className="smart-sell-product-found">
-                <div className="product-found-header">
-                  <h4>Perfect Match Found!</h4>
-                  <p>We found the ideal product for you</p>
-                </div>
-
-                <div className="product-found-card">
-                  <div className="product-found-info">
-                    <h5>{result.product_name}</h5>
-                    <p className="product-id-text">Product ID: {result.product_id}</p>
-                    <Link
-                      to={`/product/${result.product_id}`}
-                      className="btn btn-primary view-product-btn"
-                      onClick={onClose}
-                    >
-                      View Product Details
-                    </Link>
+              {/* Product Found Section: arrives with the end of the stream */}
+              {result.product_id && (
+                <div className="smart-sell-product-found">
+                  <div className="product-found-header">
+                    <h4>Perfect Match Found!</h4>
+                    <p>We found the ideal product for you</p>
                   </div>
-                  <div className="product-found-image">
-                    <img
-                      src={`data:image/jpeg;base64,${result.image_base64}`}
-                      alt={result.product_name}
-                      className="found-product-img"
-                    />
+
+                  <div className="product-found-card">
+                    <div className="product-found-info">
+                      <h5>{result.product_name}</h5>
+                      <p className="product-id-text">Product ID: {result.product_id}</p>
+                      <Link
+                        to={`/product/${result.product_id}`}
+                        className="btn btn-primary view-product-btn"
+                        onClick={onClose}
+                      >
+                        View Product Details
+                      </Link>
+                    </div>
+                    <div className="product-found-image">
+                      <img
+                        src={`data:image/jpeg;base64,${result.image_base64}`}
+                        alt={result.product_name}
+                        className="found-product-img"
+                      />
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
 
               {/* Product Recommendation */}
               <div className="smart-sell-recommendation">
@@ -349,6 +352,7 @@ const SmartProductSell: React.FC<SmartProductSellProps> = ({ onClose }) => {
                       </p>
                     )}
                   </div>
+                  <StreamingStatus streaming={isLoading} partial={partial} onCancel={cancel} />
                 </div>
               </div>
 
@@ -369,9 +373,11 @@ const SmartProductSell: React.FC<SmartProductSellProps> = ({ onClose }) => {
               </div>
 
               {/* Metadata */}
-              <div className="smart-sell-metadata">
-                <small>Recommendation ID: {result.image_id}</small>
-              </div>
+              {result.image_id && (
+                <div className="smart-sell-metadata">
+                  <small>Recommendation ID: {result.image_id}</small>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,38 @@
+import React from 'react';
+import { X } from 'lucide-react';
+
+interface StreamingStatusProps {
+  streaming: boolean;
+  partial: boolean;
+  onCancel: () => void;
+}
+
+// Shown under an AI reply while it is still being written, or once it was cut short
+const StreamingStatus: React.FC<StreamingStatusProps> = ({ streaming, partial, onCancel }) => {
+  if (streaming) {
+    return (
+      <div className="streaming-status" role="status">
+        <span className="streaming-indicator" aria-hidden="true">
+          <span></span><span></span><span></span>
+        </span>
+        <span className="streaming-label">Writing...</span>
+        <button type="button" className="btn btn-secondary loading-cancel" onClick={onCancel}>
+          <X className="btn-icon" aria-hidden="true" />
+          Stop
+        </button>
+      </div>
+    );
+  }
+
+  if (partial) {
+    return (
+      <div className="streaming-status streaming-stopped" role="status">
+        Stopped early: this reply is incomplete.
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default StreamingStatus;
@@ -0,0 +1,182 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { CartItem } from '../types/Cart';
+import { CartService } from '../services/cartService';
+import { getSessionUserId, readStorage, writeStorage } from '../utils/session';
+
+const CART_STORAGE_KEY = 'nero:cart';
+
+interface CartContextType {
+  userId: string;
+  items: CartItem[];
+  itemCount: number;
+  // false when the last change could not be saved on the CartService
+  synced: boolean;
+  addItem: (productId: string, quantity?: number) => void;
+  updateQuantity: (productId: string, quantity: number) => void;
+  removeItem: (productId: string) => void;
+  emptyCart: () => void;
+  // Resolves once the server holds the cart shown here; rejects if it cannot be saved
+  saveCart: () => Promise<void>;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+};
+
+interface CartProviderProps {
+  children: React.ReactNode;
+}
+
+// The cart is kept in localStorage and mirrored to the CartService, so it
+// survives reloads even when the backend is unreachable.
+export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
+  const [userId] = useState(getSessionUserId);
+  const [items, setItems] = useState<CartItem[]>(() => readStorage<CartItem[]>(CART_STORAGE_KEY, []));
+  const [synced, setSynced] = useState(true);
+  // Updated as soon as the cart changes, so queued writes always see the latest cart
+  const itemsRef = useRef(items);
+  const syncedRef = useRef(synced);
+  const writingRef = useRef<Promise<void> | null>(null);
+  const dirtyRef = useRef(false);
+  const changedRef = useRef(false);  // The user changed the cart since mount
+
+  useEffect(() => {
+    writeStorage(CART_STORAGE_KEY, items);
+  }, [items]);
+
+  const commit = (next: CartItem[]) => {
+    changedRef.current = true;
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  const markSynced = (value: boolean) => {
+    syncedRef.current = value;
+    setSynced(value);
+  };
+
+  /**
+   * Cart writes run one at a time: the server's AddItem adds to the stored
+   * quantity, so interleaved writes would double or drop items. A change made
+   * while a write is running marks the cart dirty instead, and once the write
+   * finishes the latest cart replaces the server one in a single pass.
+   * Resolves once the change is on the server.
+   */
+  const write = useCallback((request: () => Promise<void>): Promise<void> => {
+    if (writingRef.current) {
+      dirtyRef.current = true;
+      return writingRef.current;
+    }
+
+    const run = async () => {
+      await request();
+      while (dirtyRef.current) {
+        dirtyRef.current = false;
+        await CartService.replaceItems(userId, itemsRef.current);
+      }
+    };
+
+    const running = run();
+    writingRef.current = running;
+    running
+      .then(() => markSynced(true))
+      .catch(() => {
+        dirtyRef.current = false;
+        markSynced(false);
+      })
+      .finally(() => {
+        writingRef.current = null;
+      });
+    return running;
+  }, [userId]);
+
+  // Checkout charges the server cart, so it must match this one first
+  const saveCart = useCallback(async () => {
+    // A failed write leaves the cart unsynced, and is retried below
+    await writingRef.current?.catch(() => undefined);
+    if (!syncedRef.current) {
+      await write(() => CartService.replaceItems(userId, itemsRef.current));
+    }
+  }, [userId, write]);
+
+  // Server cart wins on load, unless it is empty and we have local items, or
+  // the user already changed the cart here: the server answered before those
+  // changes, so the local cart is the newer one and replaces it instead
+  useEffect(() => {
+    const controller = new AbortController();
+
+    CartService.getCart(userId, { signal: controller.signal })
+      .then((cart) => {
+        if (controller.signal.aborted) return;
+        if (cart.items.length > 0 && !changedRef.current) {
+          itemsRef.current = cart.items;
+          setItems(cart.items);
+          markSynced(true);
+        } else if (itemsRef.current.length > 0 || changedRef.current) {
+          write(() => CartService.replaceItems(userId, itemsRef.current));
+        } else {
+          markSynced(true);
+        }
+      })
+      .catch(() => !controller.signal.aborted && markSynced(false));
+
+    return () => controller.abort();
+  }, [userId, write]);
+
+  const addItem = useCallback((productId: string, quantity: number = 1) => {
+    const prev = itemsRef.current;
+    const existing = prev.find(item => item.product_id === productId);
+    commit(existing
+      ? prev.map(item =>
+          item.product_id === productId
+            ? { ...item, quantity: item.quantity + quantity }
+            : item
+        )
+      : [...prev, { product_id: productId, quantity }]);
+    write(() => CartService.addItem(userId, { product_id: productId, quantity }));
+  }, [userId, write]);
+
+  const updateQuantity = useCallback((productId: string, quantity: number) => {
+    const next = quantity > 0
+      ? itemsRef.current.map(item =>
+          item.product_id === productId ? { ...item, quantity } : item
+        )
+      : itemsRef.current.filter(item => item.product_id !== productId);
+
+    commit(next);
+    write(() => CartService.replaceItems(userId, itemsRef.current));
+  }, [userId, write]);
+
+  const removeItem = useCallback((productId: string) => {
+    updateQuantity(productId, 0);
+  }, [updateQuantity]);
+
+  const emptyCart = useCallback(() => {
+    commit([]);
+    write(() => CartService.emptyCart(userId));
+  }, [userId, write]);
+
+  const value = useMemo<CartContextType>(() => ({
+    userId,
+    items,
+    itemCount: items.reduce((total, item) => total + item.quantity, 0),
+    synced,
+    addItem,
+    updateQuantity,
+    removeItem,
+    emptyCart,
+    saveCart,
+  }), [userId, items, synced, addItem, updateQuantity, removeItem, emptyCart, saveCart]);
+
+  return (
+    <CartContext.Provider value={value}>
+      {children}
+    </CartContext.Provider>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Money, PriceValue } from '../types/Money';
+import { CurrencyService } from '../services/currencyService';
+import { formatMoney as formatRawMoney } from '../utils/formatters';
+import { convertMoney, toMoney } from '../utils/money';
+import { readStorage, writeStorage } from '../utils/session';
+
+const CURRENCY_STORAGE_KEY = 'nero:currency';
+const DEFAULT_CURRENCY = 'USD';
+
+interface CurrencyContextType {
+  // Currency the user picked in the header
+  selectedCurrency: string;
+  // Currency prices are actually shown in: USD until a rate is available
+  currency: string;
+  currencies: string[];
+  loadingRate: boolean;
+  setCurrency: (code: string) => void;
+  // Converts a USD amount into the active currency
+  convert: (money: Money) => Money;
+  // Formats a catalog price (USD) in the active currency
+  formatPrice: (priceUsd: PriceValue | number) => string;
+  formatMoney: (money: Money) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
+
+interface CurrencyProviderProps {
+  children: React.ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const [selectedCurrency, setSelectedCurrency] = useState(() =>
+    readStorage<string>(CURRENCY_STORAGE_KEY, DEFAULT_CURRENCY)
+  );
+  const [currencies, setCurrencies] = useState<string[]>([DEFAULT_CURRENCY]);
+  const [rate, setRate] = useState<{ code: string; value: number }>({ code: DEFAULT_CURRENCY, value: 1 });
+  const [loadingRate, setLoadingRate] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    CurrencyService.getSupportedCurrencies({ signal: controller.signal })
+      .then((codes) => {
+        const unique = Array.from(new Set([DEFAULT_CURRENCY, ...codes])).sort();
+        setCurrencies(unique);
+      })
+      .catch(() => !controller.signal.aborted && setCurrencies([DEFAULT_CURRENCY]));
+
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoadingRate(true);
+    CurrencyService.getRate(selectedCurrency)
+      .then((value) => {
+        if (!cancelled) setRate({ code: selectedCurrency, value });
+      })
+      .catch(() => {
+        // Sem taxa de câmbio: mostra os preços em USD
+        if (!cancelled) setRate({ code: DEFAULT_CURRENCY, value: 1 });
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingRate(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCurrency]);
+
+  const setCurrency = useCallback((code: string) => {
+    setSelectedCurrency(code);
+    writeStorage(CURRENCY_STORAGE_KEY, code);
+  }, []);
+
+  const convert = useCallback((money: Money) => {
+    // Amounts already in another currency (e.g. an order placed in EUR) are left alone
+    if (money.currency_code !== DEFAULT_CURRENCY) {
+      return money;
+    }
+    return convertMoney(money, rate.value, rate.code);
+  }, [rate]);
+
+  const formatMoney = useCallback((money: Money) => formatRawMoney(convert(money)), [convert]);
+
+  const formatPrice = useCallback(
+    (priceUsd: PriceValue | number) => formatMoney(toMoney(priceUsd, DEFAULT_CURRENCY)),
+    [formatMoney]
+  );
+
+  const value = useMemo<CurrencyContextType>(() => ({
+    selectedCurrency,
+    currency: rate.code,
+    currencies,
+    loadingRate,
+    setCurrency,
+    convert,
+    formatPrice,
+    formatMoney,
+  }), [selectedCurrency, rate.code, currencies, loadingRate, setCurrency, convert, formatPrice, formatMoney]);
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
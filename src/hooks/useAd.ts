@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Ad, AdService } from '../services/adService';
+import { readStorage, writeStorage } from '../utils/session';
+
+const AD_IMPRESSIONS_STORAGE_KEY = 'nero:adImpressions';
+const AD_HIDDEN_UNTIL_STORAGE_KEY = 'nero:adsHiddenUntil';
+
+// Frequency capping: an ad is shown at most this many times per window
+const MAX_IMPRESSIONS_PER_AD = 3;
+const CAPPING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+type ImpressionLog = Record<string, number[]>;
+
+const adKey = (ad: Ad) => `${ad.redirect_url}|${ad.text}`;
+
+// A store path such as /product/OLJCESPC7Z; "//host" and "/\host" are other sites
+const INTERNAL_PATH_PATTERN = /^\/(?![/\\])/;
+
+export type AdLink = { internal: true; to: string } | { internal: false; href: string };
+
+/**
+ * Where an ad may link to: a store path, opened in the app, or an http(s)
+ * page, opened in a new tab. Anything else, such as a javascript: URL, is
+ * null and the ad is not shown.
+ */
+export const toAdLink = (url: string): AdLink | null => {
+  if (INTERNAL_PATH_PATTERN.test(url)) {
+    return { internal: true, to: url };
+  }
+  try {
+    const parsed = new URL(url, window.location.origin);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+      ? { internal: false, href: parsed.href }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const recentImpressions = (log: ImpressionLog, key: string, now: number): number[] =>
+  (log[key] || []).filter(timestamp => now - timestamp < CAPPING_WINDOW_MS);
+
+// Ads whose impressions all fell out of the window are dropped, so the log stays small
+const pruneImpressions = (log: ImpressionLog, now: number): ImpressionLog => {
+  const pruned: ImpressionLog = {};
+  Object.keys(log).forEach(key => {
+    const recent = recentImpressions(log, key, now);
+    if (recent.length > 0) {
+      pruned[key] = recent;
+    }
+  });
+  return pruned;
+};
+
+// Keywords for AdService.context_keys: lowercase, de-duplicated, no tiny words
+export const toContextKeys = (...sources: (string | string[] | undefined)[]): string[] => {
+  const words = sources
+    .flat()
+    .filter((value): value is string => !!value)
+    .flatMap(value => value.toLowerCase().split(/[^\p{L}\p{N}]+/u))
+    .filter(word => word.length > 2);
+  return Array.from(new Set(words));
+};
+
+export const useAd = (contextKeys: string[]) => {
+  const [ad, setAd] = useState<Ad | null>(null);
+  const [hidden, setHidden] = useState(() =>
+    readStorage<number>(AD_HIDDEN_UNTIL_STORAGE_KEY, 0) > Date.now()
+  );
+  const keysKey = contextKeys.join(',');
+
+  useEffect(() => {
+    if (hidden) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    AdService.getAds(keysKey ? keysKey.split(',') : [], { signal: controller.signal })
+      .then((ads) => {
+        if (controller.signal.aborted) return;
+
+        const now = Date.now();
+        const log = readStorage<ImpressionLog>(AD_IMPRESSIONS_STORAGE_KEY, {});
+        const next = ads.find(candidate =>
+          toAdLink(candidate.redirect_url) !== null
+          && recentImpressions(log, adKey(candidate), now).length < MAX_IMPRESSIONS_PER_AD
+        );
+
+        if (next) {
+          const key = adKey(next);
+          writeStorage(AD_IMPRESSIONS_STORAGE_KEY, {
+            ...pruneImpressions(log, now),
+            [key]: [...recentImpressions(log, key, now), now],
+          });
+        }
+        setAd(next ?? null);
+      })
+      // Ads are optional: an AdService outage just leaves the slot empty
+      .catch(() => !controller.signal.aborted && setAd(null));
+
+    return () => controller.abort();
+  }, [keysKey, hidden]);
+
+  // Hides ads everywhere for the rest of the capping window
+  const hide = useCallback(() => {
+    writeStorage(AD_HIDDEN_UNTIL_STORAGE_KEY, Date.now() + CAPPING_WINDOW_MS);
+    setHidden(true);
+  }, []);
+
+  return { ad: hidden ? null : ad, hide };
+};
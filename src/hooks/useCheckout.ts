@@ -0,0 +1,202 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { PlacedOrder } from '../types/Checkout';
+import { Money } from '../types/Money';
+import { CheckoutService } from '../services/checkoutService';
+import { ShippingService } from '../services/shippingService';
+import { ApiError, isAbortError, toApiError } from '../services/apiClient';
+import { useCart } from '../context/CartContext';
+import { useCurrency } from '../context/CurrencyContext';
+import {
+  AddressFormValues,
+  CardFormValues,
+  FieldErrors,
+  hasErrors,
+  toAddress,
+  toCreditCard,
+  validateAddress,
+  validateCard,
+} from '../utils/validation';
+
+export type CheckoutStep = 'address' | 'shipping' | 'payment' | 'review' | 'confirmation';
+
+export const CHECKOUT_STEPS: { id: CheckoutStep; label: string }[] = [
+  { id: 'address', label: 'Address' },
+  { id: 'shipping', label: 'Shipping' },
+  { id: 'payment', label: 'Payment' },
+  { id: 'review', label: 'Review' },
+  { id: 'confirmation', label: 'Confirmation' },
+];
+
+const EMPTY_ADDRESS: AddressFormValues = {
+  email: '',
+  street_address: '',
+  city: '',
+  state: '',
+  country: '',
+  zip_code: '',
+};
+
+const initialAddressValues = (): AddressFormValues => {
+  const saved = ShippingService.getSavedAddress();
+  if (!saved) {
+    return EMPTY_ADDRESS;
+  }
+
+  return {
+    ...EMPTY_ADDRESS,
+    street_address: saved.street_address,
+    city: saved.city,
+    state: saved.state,
+    country: saved.country,
+    zip_code: saved.zip_code ? String(saved.zip_code) : '',
+  };
+};
+
+const EMPTY_CARD: CardFormValues = {
+  credit_card_number: '',
+  credit_card_cvv: '',
+  credit_card_expiration_month: '',
+  credit_card_expiration_year: '',
+};
+
+export const useCheckout = () => {
+  const { userId, items, emptyCart, saveCart } = useCart();
+  const { currency } = useCurrency();
+  const [step, setStep] = useState<CheckoutStep>('address');
+
+  const [addressValues, setAddressValues] = useState<AddressFormValues>(initialAddressValues);
+  const [addressErrors, setAddressErrors] = useState<FieldErrors<AddressFormValues>>({});
+  const [cardValues, setCardValues] = useState<CardFormValues>(EMPTY_CARD);
+  const [cardErrors, setCardErrors] = useState<FieldErrors<CardFormValues>>({});
+
+  const [quote, setQuote] = useState<Money | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteError, setQuoteError] = useState<ApiError | null>(null);
+
+  const [order, setOrder] = useState<PlacedOrder | null>(null);
+  const [placing, setPlacing] = useState(false);
+  const [orderError, setOrderError] = useState<ApiError | null>(null);
+
+  const quoteControllerRef = useRef<AbortController | null>(null);
+  const orderControllerRef = useRef<AbortController | null>(null);
+
+  // Leaving checkout drops whatever is still in flight
+  useEffect(() => () => {
+    quoteControllerRef.current?.abort();
+    orderControllerRef.current?.abort();
+  }, []);
+
+  const updateAddress = useCallback((field: keyof AddressFormValues, value: string) => {
+    setAddressValues(prev => ({ ...prev, [field]: value }));
+    setAddressErrors(prev => ({ ...prev, [field]: undefined }));
+  }, []);
+
+  const updateCard = useCallback((field: keyof CardFormValues, value: string) => {
+    setCardValues(prev => ({ ...prev, [field]: value }));
+    setCardErrors(prev => ({ ...prev, [field]: undefined }));
+  }, []);
+
+  // A new quote replaces the one for the previous address, which must not land after it
+  const fetchQuote = useCallback(async () => {
+    quoteControllerRef.current?.abort();
+    const controller = new AbortController();
+    quoteControllerRef.current = controller;
+
+    try {
+      setQuoteLoading(true);
+      setQuoteError(null);
+      const cost = await ShippingService.getQuote(toAddress(addressValues), items, { signal: controller.signal });
+      setQuote(cost);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setQuoteError(toApiError(err));
+    } finally {
+      if (quoteControllerRef.current === controller) {
+        quoteControllerRef.current = null;
+        setQuoteLoading(false);
+      }
+    }
+  }, [addressValues, items]);
+
+  const submitAddress = useCallback(() => {
+    const errors = validateAddress(addressValues);
+    setAddressErrors(errors);
+    if (hasErrors(errors)) {
+      return false;
+    }
+
+    ShippingService.saveAddress(toAddress(addressValues));
+    setStep('shipping');
+    fetchQuote();
+    return true;
+  }, [addressValues, fetchQuote]);
+
+  const submitPayment = useCallback(() => {
+    const errors = validateCard(cardValues);
+    setCardErrors(errors);
+    if (hasErrors(errors)) {
+      return false;
+    }
+
+    setStep('review');
+    return true;
+  }, [cardValues]);
+
+  const placeOrder = useCallback(async () => {
+    orderControllerRef.current?.abort();
+    const controller = new AbortController();
+    orderControllerRef.current = controller;
+
+    try {
+      setPlacing(true);
+      setOrderError(null);
+
+      // The order is charged from the server cart: never place it while that
+      // may differ from the review screen
+      await saveCart();
+      if (controller.signal.aborted) return;
+
+      const result = await CheckoutService.placeOrder({
+        user_id: userId,
+        user_currency: currency,
+        address: toAddress(addressValues),
+        email: addressValues.email.trim(),
+        credit_card: toCreditCard(cardValues),
+      }, { signal: controller.signal });
+
+      setOrder(result);
+      setStep('confirmation');
+      emptyCart();
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setOrderError(toApiError(err));
+    } finally {
+      if (orderControllerRef.current === controller) {
+        orderControllerRef.current = null;
+        setPlacing(false);
+      }
+    }
+  }, [userId, currency, addressValues, cardValues, emptyCart, saveCart]);
+
+  return {
+    step,
+    goToStep: setStep,
+    items,
+    addressValues,
+    addressErrors,
+    updateAddress,
+    submitAddress,
+    quote,
+    quoteLoading,
+    quoteError,
+    fetchQuote,
+    cardValues,
+    cardErrors,
+    updateCard,
+    submitPayment,
+    order,
+    placing,
+    orderError,
+    placeOrder,
+  };
+};
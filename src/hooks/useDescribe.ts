@@ -1,11 +1,13 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { DescribeService, DescribeRequest, DescribeResponse } from '../services/describeService';
+import { ApiError, RetryProgress, isAbortError, toApiError } from '../services/apiClient';
 
 export interface DescribeState {
   isLoading: boolean;
-  error: string | null;
-  result: DescribeResponse | null;
+  error: ApiError | null;
+  result: DescribeResponse | null;  // Filled in as the description streams
   altText: string | null;
+  partial: boolean;  // The description was cancelled before it was complete
 }
 
 export const useDescribe = () => {
@@ -14,19 +16,40 @@ export const useDescribe = () => {
     error: null,
     result: null,
     altText: null,
+    partial: false,
   });
+  const [retry, setRetry] = useState<RetryProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Resolves to null when the description was cancelled
   const describeImage = useCallback(async (request: DescribeRequest) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     setState(prev => ({
       ...prev,
       isLoading: true,
       error: null,
       result: null,
       altText: null,
+      partial: false,
     }));
 
     try {
-      const result = await DescribeService.describeImage(request);
+      const result = await DescribeService.describeImage(request, {
+        signal: controller.signal,
+        onRetry: setRetry,
+        onText: (description) => {
+          if (controllerRef.current !== controller) return;
+          setState(prev => ({
+            ...prev,
+            result: { image_id: prev.result?.image_id ?? '', description },
+          }));
+        },
+      });
       const altText = DescribeService.generateAltText(
         result.description,
         request.type_prompt || 'product'
@@ -37,29 +60,50 @@ export const useDescribe = () => {
         error: null,
         result,
         altText,
+        partial: false,
       });
 
       return { result, altText };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to describe image';
+      if (isAbortError(error)) {
+        return null;
+      }
+      const apiError = toApiError(error);
 
       setState({
         isLoading: false,
-        error: errorMessage,
+        error: apiError,
         result: null,
         altText: null,
+        partial: false,
       });
 
-      throw error;
+      throw apiError;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRetry(null);
+      }
     }
   }, []);
 
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRetry(null);
+    // Whatever streamed in so far stays on screen
+    setState(prev => ({ ...prev, isLoading: false, partial: prev.result !== null }));
+  }, []);
+
   const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
     setState({
       isLoading: false,
       error: null,
       result: null,
       altText: null,
+      partial: false,
     });
   }, []);
 
@@ -81,7 +125,9 @@ export const useDescribe = () => {
 
   return {
     ...state,
+    retry,
     describeImage,
+    cancel,
     reset,
     copyDescription,
     copyAltText,
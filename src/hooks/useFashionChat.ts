@@ -0,0 +1,210 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { FashionService, FashionAssistantResponse } from '../services/fashionService';
+import { ApiError, RetryProgress, isAbortError, toApiError } from '../services/apiClient';
+import { Product } from '../types/Product';
+import {
+  FashionChatMessage,
+  clearFashionChat,
+  getFashionChat,
+  getFashionChatImage,
+  saveFashionChat,
+  setFashionChatImage,
+} from '../utils/fashionChats';
+
+const MAX_SUGGESTIONS = 3;
+
+// Offered when the backend does not propose follow-ups of its own
+const DEFAULT_FOLLOW_UPS = [
+  'What shoes go with this?',
+  'Make it more formal',
+  'Make it more casual',
+  'What colors pair well with it?',
+  'How should I accessorize it?',
+  'What should I avoid wearing with it?',
+];
+
+let nextMessageId = 0;
+const createMessage = (role: FashionChatMessage['role'], content: string): FashionChatMessage => ({
+  id: `${Date.now().toString(36)}-${(nextMessageId++).toString(36)}`,
+  role,
+  content,
+});
+
+const pickSuggestions = (proposed: string[] | undefined, messages: FashionChatMessage[]): string[] => {
+  const asked = new Set(messages.filter(m => m.role === 'user').map(m => m.content.trim().toLowerCase()));
+  const candidates = proposed && proposed.length > 0 ? proposed : DEFAULT_FOLLOW_UPS;
+  return candidates.filter(question => !asked.has(question.trim().toLowerCase())).slice(0, MAX_SUGGESTIONS);
+};
+
+// The question that opens every conversation, shown as the user's first message
+export const FIRST_QUESTION = 'How does this look on me? Any styling tips?';
+
+/**
+ * A Fashion Assistant conversation about one product. It starts from a photo
+ * of the user; follow-ups send that photo again with everything said so far.
+ * Conversations are kept per product, so reopening the assistant (or coming
+ * back to the product) picks up where the user left off.
+ */
+export const useFashionChat = (product: Product) => {
+  const productId = product.id;
+  const [messages, setMessages] = useState<FashionChatMessage[]>(() => getFashionChat(productId)?.messages ?? []);
+  const [imageId, setImageId] = useState<string | null>(() => getFashionChat(productId)?.imageId ?? null);
+  const [suggestions, setSuggestions] = useState<string[]>(() => getFashionChat(productId)?.suggestions ?? []);
+  const [image, setImageState] = useState<File | null>(() => getFashionChatImage(productId));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [retry, setRetry] = useState<RetryProgress | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Persist between turns rather than on every streamed token
+  useEffect(() => {
+    if (!isLoading && messages.length > 0) {
+      saveFashionChat(productId, { messages, imageId, suggestions });
+    }
+  }, [productId, messages, imageId, suggestions, isLoading]);
+
+  const setImage = useCallback((file: File | null) => {
+    setImageState(file);
+    if (file) {
+      setFashionChatImage(productId, file);
+    }
+  }, [productId]);
+
+  const updateMessage = (id: string, changes: Partial<FashionChatMessage>) =>
+    setMessages(prev => prev.map(message => (message.id === id ? { ...message, ...changes } : message)));
+
+  /**
+   * Sends `question` (already the last message in `history`) and streams the
+   * answer into a new assistant message.
+   */
+  const send = useCallback(async (question: string, history: FashionChatMessage[], photo: File) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const reply = createMessage('assistant', '');
+    setMessages([...history, reply]);
+    setSuggestions([]);
+    setIsLoading(true);
+    setError(null);
+
+    const options = {
+      signal: controller.signal,
+      onRetry: setRetry,
+      onText: (content: string) => {
+        if (controllerRef.current === controller) {
+          updateMessage(reply.id, { content });
+        }
+      },
+    };
+
+    try {
+      // Earlier turns only: the question travels on its own
+      const turns = history.slice(0, -1).filter(m => m.content.trim());
+      let response: FashionAssistantResponse;
+      if (turns.length === 0) {
+        response = await FashionService.getFashionAdvice(photo, options);
+      } else {
+        response = await FashionService.askFollowUp({
+          image: photo,
+          imageId: imageId ?? undefined,
+          question,
+          history: turns.map(({ role, content }) => ({ role, content })),
+          productName: product.name,
+        }, options);
+      }
+
+      updateMessage(reply.id, { content: response.description });
+      if (response.image_id) {
+        setImageId(response.image_id);
+      }
+      setSuggestions(pickSuggestions(response.suggestions, history));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      // Drop the unanswered reply; the question stays so it can be retried
+      setMessages(prev => prev.filter(message => message.id !== reply.id));
+      setError(toApiError(err));
+      console.error('Fashion chat error:', err);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRetry(null);
+        setIsLoading(false);
+      }
+    }
+  }, [imageId, product.name]);
+
+  // First turn: analyze the photo
+  const start = useCallback((photo: File) => {
+    setImage(photo);
+    setImageId(null);
+    return send(FIRST_QUESTION, [createMessage('user', FIRST_QUESTION)], photo);
+  }, [send, setImage]);
+
+  const ask = useCallback((question: string) => {
+    const trimmed = question.trim();
+    if (!trimmed || !image) {
+      return Promise.resolve();
+    }
+    return send(trimmed, [...messagesRef.current, createMessage('user', trimmed)], image);
+  }, [send, image]);
+
+  // Sends the last question again after a failure
+  const retryLast = useCallback(() => {
+    const history = messagesRef.current;
+    const last = history[history.length - 1];
+    if (!image || !last || last.role !== 'user') {
+      return Promise.resolve();
+    }
+    return send(last.content, history, image);
+  }, [send, image]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRetry(null);
+    setIsLoading(false);
+    // Whatever streamed in so far stays in the conversation
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      if (!last || last.role !== 'assistant') return prev;
+      return last.content
+        ? [...prev.slice(0, -1), { ...last, partial: true }]
+        : prev.slice(0, -1);
+    });
+    setSuggestions(pickSuggestions(undefined, messagesRef.current));
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    clearFashionChat(productId);
+    setMessages([]);
+    setImageId(null);
+    setSuggestions([]);
+    setImageState(null);
+    setIsLoading(false);
+    setError(null);
+    setRetry(null);
+  }, [productId]);
+
+  return {
+    messages,
+    suggestions,
+    image,
+    setImage,
+    isLoading,
+    retry,
+    error,
+    start,
+    ask,
+    retryLast,
+    cancel,
+    reset,
+  };
+};
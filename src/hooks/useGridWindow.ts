@@ -0,0 +1,124 @@
+import { useState, useLayoutEffect, useCallback, useRef } from 'react';
+
+// Rows kept rendered above and below the viewport, so fast scrolling does not show gaps
+const OVERSCAN_ROWS = 3;
+
+interface GridMetrics {
+  columns: number;
+  rowStride: number;  // Row height plus the gap below it
+  gap: number;
+  top: number;  // Page offset of the first row
+}
+
+interface RowRange {
+  start: number;
+  end: number;  // Exclusive
+}
+
+const sameMetrics = (a: GridMetrics | null, b: GridMetrics): boolean =>
+  !!a && a.columns === b.columns && a.gap === b.gap
+  && Math.abs(a.rowStride - b.rowStride) < 1 && Math.abs(a.top - b.top) < 1;
+
+// Items only: the spacers and placeholders rendered around them are marked as fillers
+const gridItems = (grid: HTMLElement): HTMLElement[] =>
+  Array.from(grid.children).filter((child): child is HTMLElement =>
+    child instanceof HTMLElement && !child.hasAttribute('data-grid-filler'));
+
+/**
+ * Keeps only the rows of a CSS grid near the viewport in the DOM. The rows
+ * above and below are replaced by spacers of the same height, so the page
+ * keeps its scroll height and the scroll position stays valid. Rows are
+ * measured from the ones rendered, which assumes cards of similar height.
+ * Until the grid has been measured every item is rendered.
+ */
+export const useGridWindow = (count: number) => {
+  const [grid, setGrid] = useState<HTMLElement | null>(null);
+  const [metrics, setMetrics] = useState<GridMetrics | null>(null);
+  const [rows, setRows] = useState<RowRange | null>(null);
+  const startRef = useRef(0);  // Index of the first item rendered
+
+  const measure = useCallback(() => {
+    if (!grid) return;
+
+    const items = gridItems(grid);
+    if (items.length === 0) return;
+
+    const style = window.getComputedStyle(grid);
+    const columns = style.gridTemplateColumns.split(' ').filter(Boolean).length || 1;
+    const gap = parseFloat(style.rowGap) || 0;
+    const first = items[0];
+    const last = items[items.length - 1];
+    const rowsBetween = Math.round((last.offsetTop - first.offsetTop) / (first.offsetHeight + gap));
+    const rowStride = rowsBetween > 0
+      ? (last.offsetTop - first.offsetTop) / rowsBetween
+      : first.offsetHeight + gap;
+    // The first rendered row may sit below a spacer
+    const firstRow = Math.floor(startRef.current / columns);
+    const top = first.getBoundingClientRect().top + window.scrollY - firstRow * rowStride;
+
+    const next = { columns, rowStride, gap, top };
+    setMetrics(prev => (sameMetrics(prev, next) ? prev : next));
+  }, [grid]);
+
+  const updateRows = useCallback(() => {
+    if (!metrics) return;
+
+    const totalRows = Math.ceil(count / metrics.columns);
+    const viewportTop = window.scrollY - metrics.top;
+    const start = Math.max(0, Math.floor(viewportTop / metrics.rowStride) - OVERSCAN_ROWS);
+    const end = Math.min(
+      totalRows,
+      Math.ceil((viewportTop + window.innerHeight) / metrics.rowStride) + OVERSCAN_ROWS
+    );
+    const next = { start: Math.min(start, end), end };
+    setRows(prev => (prev && prev.start === next.start && prev.end === next.end ? prev : next));
+  }, [metrics, count]);
+
+  // Columns and row heights change with the viewport width, and the list grows as pages load
+  useLayoutEffect(() => {
+    if (!grid) return;
+
+    measure();
+    const observer = new ResizeObserver(() => measure());
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [grid, measure, count]);
+
+  useLayoutEffect(() => {
+    updateRows();
+
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRows);
+    };
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+    };
+  }, [updateRows]);
+
+  if (!metrics || !rows) {
+    startRef.current = 0;
+    return { gridRef: setGrid, start: 0, end: count, spaceBefore: 0, spaceAfter: 0 };
+  }
+
+  const totalRows = Math.ceil(count / metrics.columns);
+  const end = Math.min(rows.end, totalRows);
+  const start = Math.min(rows.start, end);
+  // A spacer is a grid item itself, so the gap after it is already part of the stride
+  const spacer = (rowCount: number) => (rowCount > 0 ? rowCount * metrics.rowStride - metrics.gap : 0);
+  startRef.current = start * metrics.columns;
+
+  return {
+    // Callback ref for the grid element
+    gridRef: setGrid,
+    start: start * metrics.columns,
+    end: Math.min(count, end * metrics.columns),
+    spaceBefore: spacer(start),
+    spaceAfter: spacer(totalRows - end),
+  };
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, useTransition } from 'react';
+import { useLocation } from 'react-router-dom';
+
+export const PAGE_SIZE = 24;
+
+// Start rendering the next page this far before the end of the grid comes into view
+const PRELOAD_MARGIN = '800px';
+
+interface SavedPosition {
+  count: number;
+  scrollY: number;
+}
+
+// Keyed by history entry (location.key), so Back lands where the user left
+// while a fresh visit to the same URL starts at the top
+const savedPositions = new Map<string, SavedPosition>();
+
+/**
+ * Renders a long list one page at a time as the user scrolls, and restores
+ * how far they got (pages and scroll offset) when they navigate back.
+ * `resetKey` should change whenever the list itself changes (new filters).
+ */
+export const useInfiniteScroll = (total: number, resetKey: string) => {
+  const location = useLocation();
+  const saved = savedPositions.get(location.key);
+  const [visibleCount, setVisibleCount] = useState(saved?.count ?? PAGE_SIZE);
+  const [isPending, startTransition] = useTransition();
+  const [sentinel, setSentinel] = useState<Element | null>(null);
+  const pendingRestore = useRef(saved?.scrollY ?? null);
+  const lastResetKey = useRef(resetKey);
+  const countRef = useRef(visibleCount);
+  countRef.current = visibleCount;
+
+  useEffect(() => {
+    if (lastResetKey.current !== resetKey) {
+      lastResetKey.current = resetKey;
+      setVisibleCount(PAGE_SIZE);
+    }
+  }, [resetKey]);
+
+  // Once the items are there again, put the page back where it was
+  useLayoutEffect(() => {
+    if (pendingRestore.current !== null && total > 0) {
+      window.scrollTo(0, pendingRestore.current);
+      pendingRestore.current = null;
+    }
+  }, [total]);
+
+  // Remember the position continuously: by unmount time the browser may already
+  // have clamped the scroll to the next page's height. A layout effect, so the
+  // listener is gone before that clamp can overwrite the saved offset.
+  useLayoutEffect(() => {
+    const key = location.key;
+    const save = () => savedPositions.set(key, { count: countRef.current, scrollY: window.scrollY });
+    window.addEventListener('scroll', save, { passive: true });
+    return () => window.removeEventListener('scroll', save);
+  }, [location.key]);
+
+  const hasMore = visibleCount < total;
+
+  const loadMore = useCallback(() => {
+    // A transition keeps the current page responsive while the next cards render
+    startTransition(() => {
+      setVisibleCount(count => Math.min(count + PAGE_SIZE, total));
+    });
+  }, [total]);
+
+  useEffect(() => {
+    if (!sentinel || !hasMore || isPending) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => entries.some(entry => entry.isIntersecting) && loadMore(),
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, hasMore, isPending, loadMore]);
+
+  return {
+    visibleCount: Math.min(visibleCount, total),
+    hasMore,
+    isPending,
+    loadMore,
+    // Callback ref for the element at the end of the list
+    sentinelRef: setSentinel,
+  };
+};
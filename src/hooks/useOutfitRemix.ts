@@ -0,0 +1,168 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { RemixService } from '../services/remixService';
+import { ApiError, RetryProgress, isAbortError, toApiError } from '../services/apiClient';
+import { RemixOutfitItem } from '../utils/remixGallery';
+import { promptVariables, renderPrompt, templateForUse } from '../utils/remixPrompts';
+
+export const MAX_OUTFIT_ITEMS = 4;
+
+export interface OutfitStepResult {
+  productId: string;
+  prompt: string;
+  image: Blob;
+}
+
+export interface OutfitStep {
+  item: RemixOutfitItem;
+  prompt: string;
+  result: Blob | null;  // Null until this step has been generated
+}
+
+// The first item dresses the photo; every later one is layered on top of the previous step
+export const outfitStepPrompt = (item: RemixOutfitItem, index: number): string =>
+  renderPrompt(
+    templateForUse(index === 0 ? 'outfit-first' : 'outfit-layer'),
+    promptVariables({ name: item.productName, categories: [] })
+  );
+
+/**
+ * Builds a try-on of several catalog products from sequential remix passes:
+ * the user's photo plus the first product, then that result plus the second,
+ * and so on. Results are a chain, so dropping an item keeps the steps before
+ * it and only the rest is generated again.
+ */
+export const useOutfitRemix = (initialItems: RemixOutfitItem[], initialPhoto: File | null = null) => {
+  const [items, setItems] = useState<RemixOutfitItem[]>(initialItems);
+  const [photo, setPhotoState] = useState<File | null>(initialPhoto);
+  const [results, setResults] = useState<OutfitStepResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeStep, setActiveStep] = useState<number | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [retry, setRetry] = useState<RetryProgress | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const productImagesRef = useRef(new Map<string, File>());
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const resultsRef = useRef(results);
+  resultsRef.current = results;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const addItem = useCallback((item: RemixOutfitItem) => {
+    setItems(prev => (prev.length >= MAX_OUTFIT_ITEMS || prev.some(i => i.productId === item.productId)
+      ? prev
+      : [...prev, item]));
+  }, []);
+
+  // Steps before the dropped item stay valid; everything after it must be regenerated
+  const removeItem = useCallback((productId: string) => {
+    const index = itemsRef.current.findIndex(item => item.productId === productId);
+    if (index === -1) return;
+    setItems(prev => prev.filter(item => item.productId !== productId));
+    setResults(prev => prev.slice(0, index));
+  }, []);
+
+  // Every step was made from the old photo
+  const setPhoto = useCallback((file: File) => {
+    controllerRef.current?.abort();
+    setPhotoState(file);
+    setResults([]);
+  }, []);
+
+  const loadProductImage = async (item: RemixOutfitItem): Promise<File> => {
+    const cached = productImagesRef.current.get(item.productId);
+    if (cached) return cached;
+
+    const file = await RemixService.loadProductImage(item.productPicture, item.productName);
+    productImagesRef.current.set(item.productId, file);
+    return file;
+  };
+
+  /**
+   * Generates every step that has no result yet, starting at `fromStep` when
+   * given (to redo a step the user did not like). Resolves to the full chain,
+   * or null when it was cancelled or failed.
+   */
+  const generate = useCallback(async (fromStep?: number) => {
+    if (!photo) return null;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    let done = resultsRef.current.slice(0, fromStep ?? resultsRef.current.length);
+
+    setResults(done);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      for (let index = done.length; index < items.length; index++) {
+        setActiveStep(index);
+        const item = items[index];
+        const base = index === 0
+          ? photo
+          : new File([done[index - 1].image], `outfit-step-${index}.png`, { type: done[index - 1].image.type });
+        const prompt = outfitStepPrompt(item, index);
+
+        const image = await RemixService.remixImages({
+          image1: base,
+          image2: await loadProductImage(item),
+          prompt,
+        }, {
+          signal: controller.signal,
+          onRetry: setRetry,
+        });
+
+        done = [...done, { productId: item.productId, prompt, image }];
+        setResults(done);
+      }
+      return done;
+    } catch (err) {
+      if (isAbortError(err)) return null;
+      setError(toApiError(err));
+      console.error('Outfit remix error:', err);
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRetry(null);
+        setIsLoading(false);
+        setActiveStep(null);
+      }
+    }
+  }, [items, photo]);
+
+  // Finished steps are kept, so generating again picks up where this stopped
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRetry(null);
+    setIsLoading(false);
+    setActiveStep(null);
+  }, []);
+
+  const steps: OutfitStep[] = items.map((item, index) => ({
+    item,
+    prompt: outfitStepPrompt(item, index),
+    result: results[index]?.image ?? null,
+  }));
+  const complete = items.length > 0 && results.length === items.length;
+
+  return {
+    items,
+    photo,
+    steps,
+    result: complete ? results[results.length - 1].image : null,
+    isLoading,
+    activeStep,
+    retry,
+    error,
+    addItem,
+    removeItem,
+    setPhoto,
+    generate,
+    cancel,
+  };
+};
@@ -0,0 +1,22 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_FILTERS, ProductFilters, parseFilters, writeFilters } from '../utils/productFilters';
+
+// Filter state lives in the URL so filtered views can be shared and bookmarked
+export const useProductFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+  // Stable string form, handy as a dependency or reset key
+  const filtersKey = writeFilters(new URLSearchParams(), filters).toString();
+
+  // Replaces the history entry: dragging the price slider should not flood Back
+  const updateFilters = useCallback((changes: Partial<ProductFilters>) => {
+    setSearchParams(prev => writeFilters(prev, { ...parseFilters(prev), ...changes }), { replace: true });
+  }, [setSearchParams]);
+
+  const resetFilters = useCallback(() => {
+    setSearchParams(prev => writeFilters(prev, { ...DEFAULT_FILTERS, sort: parseFilters(prev).sort }), { replace: true });
+  }, [setSearchParams]);
+
+  return { filters, filtersKey, updateFilters, resetFilters };
+};
@@ -1,124 +1,140 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Product } from '../types/Product';
 import { ProductService } from '../services/productService';
+import { ApiError, RequestOptions, toApiError } from '../services/apiClient';
+import { QueryCache, queryKey } from '../services/queryCache';
+import { useQuery } from './useQuery';
+import { SearchResult, rankProducts } from '../utils/searchIndex';
+
+export const PRODUCTS_QUERY_KEY = queryKey('/products');
+export const productQueryKey = (id: string) => queryKey(`/products/${id}`);
+const productByNameQueryKey = (name: string) => queryKey(`/products-name/${name}`);
+
+// The list already holds every product, so it seeds the detail entries too:
+// opening a product from the grid renders without another request
+export const fetchAllProducts = async (options?: RequestOptions): Promise<Product[]> => {
+  const products = await ProductService.getAllProducts(options);
+  products.forEach(product => QueryCache.setData(productQueryKey(product.id), product));
+  return products;
+};
+
+const fetchProductById = (id: string) => (options: RequestOptions) => ProductService.getProductById(id, options);
 
 // Hook para buscar todos os produtos
 export const useProducts = () => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchProducts = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        const data = await ProductService.getAllProducts();
-        setProducts(data);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to load products';
-        setError(errorMessage);
-      } finally {
-        setLoading(false);
-      }
-    };
+  const { data, loading, error, retry } = useQuery(PRODUCTS_QUERY_KEY, fetchAllProducts);
 
-    fetchProducts();
-  }, []);
+  // Retrying the catalog refreshes every product entry on screen, not just the list
+  const refetch = useCallback(() => QueryCache.invalidate(PRODUCTS_QUERY_KEY), []);
 
-  return { products, loading, error, refetch: () => window.location.reload() };
+  return { products: data ?? NO_PRODUCTS, loading, error, retry, refetch };
 };
 
+// Stable empty arrays, so memos keyed on the results do not rerun every render
+const NO_PRODUCTS: Product[] = [];
+const NO_RESULTS: SearchResult[] = [];
+
+const MISSING_ID_ERROR = new ApiError('Product ID is required', { kind: 'validation' });
+const MISSING_NAME_ERROR = new ApiError('Product name is required', { kind: 'validation' });
+
 // Hook para buscar produto por ID
 export const useProduct = (id: string | undefined) => {
-  const [product, setProduct] = useState<Product | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data, loading, error, retry, refetch } = useQuery(
+    productQueryKey(id ?? ''),
+    fetchProductById(id ?? ''),
+    { enabled: !!id }
+  );
 
-  useEffect(() => {
-    const fetchProduct = async () => {
-      if (!id) {
-        setError('Product ID is required');
-        setLoading(false);
-        return;
-      }
+  return { product: data ?? null, loading, error: id ? error : MISSING_ID_ERROR, retry, refetch };
+};
 
-      try {
-        setLoading(true);
-        setError(null);
-        const data = await ProductService.getProductById(id);
-        setProduct(data);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to load product';
-        setError(errorMessage);
-      } finally {
-        setLoading(false);
-      }
-    };
+// Hook para buscar produto por nome
+export const useProductByName = (name: string | undefined) => {
+  const { data, loading, error, retry, refetch } = useQuery(
+    productByNameQueryKey(name ?? ''),
+    (options) => ProductService.getProductByName(name ?? '', options),
+    { enabled: !!name }
+  );
 
-    fetchProduct();
-  }, [id]);
+  return { product: data ?? null, loading, error: name ? error : MISSING_NAME_ERROR, retry, refetch };
+};
+
+// Hook para buscar produtos, ordenados por relevância
+export const useProductSearch = (query: string) => {
+  const trimmed = query.trim();
+  const { data, loading, error, retry, refetch } = useQuery(
+    queryKey('/products-search', { query: trimmed }),
+    async (options) => rankProducts(await ProductService.searchProducts(trimmed, options), trimmed),
+    { enabled: !!trimmed }
+  );
 
-  return { product, loading, error, refetch: () => window.location.reload() };
+  return { results: data ?? NO_RESULTS, loading, error, retry, refetch };
 };
 
-// Hook para buscar produto por nome
-export const useProductByName = (name: string | undefined) => {
-  const [product, setProduct] = useState<Product | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// Hook para resolver uma lista de IDs em produtos (carrinho, recomendações)
+export const useProductsByIds = (ids: string[]) => {
+  const [products, setProducts] = useState<Record<string, Product>>(() => {
+    const cached: Record<string, Product> = {};
+    ids.forEach(id => {
+      const product = QueryCache.getState<Product>(productQueryKey(id)).data;
+      if (product) cached[id] = product;
+    });
+    return cached;
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const idsKey = ids.join(',');
 
   useEffect(() => {
-    const fetchProduct = async () => {
-      if (!name) {
-        setError('Product name is required');
-        setLoading(false);
-        return;
-      }
+    const missing = idsKey ? idsKey.split(',').filter(id => !products[id]) : [];
+    if (missing.length === 0) {
+      // A fetch for the previous ids may have been cut short before it cleared the flag
+      setLoading(false);
+      return;
+    }
 
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchProducts = async () => {
       try {
         setLoading(true);
         setError(null);
-        const data = await ProductService.getProductByName(name);
-        setProduct(data);
+        // Um produto removido do catálogo não deve derrubar a lista inteira
+        const results = await Promise.allSettled(
+          missing.map(id => QueryCache.ensure(productQueryKey(id), fetchProductById(id), { signal }))
+        );
+        if (signal.aborted) return;
+
+        setProducts(prev => {
+          const next = { ...prev };
+          results.forEach(result => {
+            if (result.status === 'fulfilled') {
+              next[result.value.id] = result.value;
+            }
+          });
+          return next;
+        });
+
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failure && results.every(result => result.status === 'rejected')) {
+          setError(toApiError(failure.reason));
+        }
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to load product';
-        setError(errorMessage);
+        if (!signal.aborted) {
+          setError(toApiError(err));
+        }
       } finally {
-        setLoading(false);
+        if (!signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
-    fetchProduct();
-  }, [name]);
-
-  return { product, loading, error, refetch: () => window.location.reload() };
-};
-
-// Hook para buscar produtos (busca local)
-export const useProductSearch = () => {
-  const [results, setResults] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const searchProducts = async (query: string) => {
-    if (!query.trim()) {
-      setResults([]);
-      return;
-    }
+    fetchProducts();
 
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await ProductService.searchProducts(query);
-      setResults(data);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to search products';
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
-    }
-  };
+    return () => controller.abort();
+  }, [idsKey]);
 
-  return { results, loading, error, searchProducts };
+  return { products, loading, error };
 };
@@ -0,0 +1,50 @@
+import { useLayoutEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import { QueryCache, QueryFetcher } from '../services/queryCache';
+
+interface UseQueryOptions {
+  staleTime?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Reads `key` from the query cache: cached data renders immediately, and
+ * anything stale (or never fetched) is revalidated in the background.
+ */
+export const useQuery = <T>(
+  key: string,
+  fetcher: QueryFetcher<T>,
+  { staleTime, enabled = true }: UseQueryOptions = {}
+) => {
+  // The latest fetcher, without making callers memoize it
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback((listener: () => void) => QueryCache.subscribe(key, listener), [key]);
+  const getSnapshot = useCallback(() => QueryCache.getState<T>(key), [key]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // A layout effect, so a remount after a failure shows the spinner rather than flashing the old error
+  useLayoutEffect(() => {
+    if (enabled && QueryCache.isStale(key, staleTime)) {
+      // Failures land in the cache state
+      QueryCache.fetch(key, (options) => fetcherRef.current(options)).catch(() => undefined);
+    }
+  }, [key, enabled, staleTime]);
+
+  const refetch = useCallback(
+    () => QueryCache.fetch(key, (options) => fetcherRef.current(options)).then(() => undefined, () => undefined),
+    [key]
+  );
+
+  const hasData = state.data !== undefined;
+
+  return {
+    data: state.data,
+    // With data on screen a failed revalidation is not worth an error page
+    error: hasData ? null : state.error,
+    loading: enabled && !hasData && (state.fetching || !state.error),
+    fetching: state.fetching,
+    retry: state.retry,
+    refetch,
+  };
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { Product } from '../types/Product';
+import { RecommendationService, RecommendationSource } from '../services/recommendationService';
+import { isAbortError } from '../services/apiClient';
+import { useCart } from '../context/CartContext';
+
+export const useRecommendations = (productIds: string[], limit: number = 4) => {
+  const { userId } = useCart();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [source, setSource] = useState<RecommendationSource | null>(null);
+  const [loading, setLoading] = useState(false);
+  const idsKey = productIds.join(',');
+
+  useEffect(() => {
+    if (!idsKey) {
+      // A fetch for the previous ids was aborted by the cleanup and will not clear this
+      setProducts([]);
+      setSource(null);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchRecommendations = async () => {
+      try {
+        setLoading(true);
+        const result = await RecommendationService.getRecommendations(userId, idsKey.split(','), limit, { signal });
+        if (!signal.aborted) {
+          setProducts(result.products);
+          setSource(result.source);
+        }
+      } catch (err) {
+        if (isAbortError(err)) return;
+        // Recommendations are optional: hide the strip on failure
+        console.error('Failed to load recommendations:', err);
+        if (!signal.aborted) setProducts([]);
+      } finally {
+        if (!signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchRecommendations();
+
+    return () => controller.abort();
+  }, [idsKey, userId, limit]);
+
+  return { products, source, loading };
+};
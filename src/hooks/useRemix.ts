@@ -1,11 +1,12 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { RemixService, RemixRequest } from '../services/remixService';
+import { ApiError, RetryProgress, isAbortError, toApiError } from '../services/apiClient';
+import { useObjectUrl } from './useObjectUrl';
 
 export interface RemixState {
   isLoading: boolean;
-  error: string | null;
+  error: ApiError | null;
   result: Blob | null;
-  resultUrl: string | null;
 }
 
 export const useRemix = () => {
@@ -13,57 +14,80 @@ export const useRemix = () => {
     isLoading: false,
     error: null,
     result: null,
-    resultUrl: null,
   });
+  // Revoked as soon as a new result replaces it or the hook unmounts
+  const resultUrl = useObjectUrl(state.result);
+  const [retry, setRetry] = useState<RetryProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
+  // Closing the modal mid-upload should not leave the request running
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Resolves to the generated image, or null when the remix was cancelled
   const remixImages = useCallback(async (request: RemixRequest) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     setState(prev => ({
       ...prev,
       isLoading: true,
       error: null,
       result: null,
-      resultUrl: null,
     }));
 
     try {
-      const result = await RemixService.remixImages(request);
-      const resultUrl = RemixService.createResultUrl(result);
+      const result = await RemixService.remixImages(request, {
+        signal: controller.signal,
+        onRetry: setRetry,
+      });
 
       setState({
         isLoading: false,
         error: null,
         result,
-        resultUrl,
       });
 
-      return { result, resultUrl };
+      return result;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to remix images';
+      if (isAbortError(error)) {
+        return null;
+      }
+      const apiError = toApiError(error);
 
       setState({
         isLoading: false,
-        error: errorMessage,
+        error: apiError,
         result: null,
-        resultUrl: null,
       });
 
-      throw error;
+      throw apiError;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRetry(null);
+      }
     }
   }, []);
 
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRetry(null);
+    setState(prev => ({ ...prev, isLoading: false }));
+  }, []);
+
   const reset = useCallback(() => {
-    // Limpar URL anterior se existir
-    if (state.resultUrl) {
-      RemixService.revokePreviewUrl(state.resultUrl);
-    }
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRetry(null);
 
     setState({
       isLoading: false,
       error: null,
       result: null,
-      resultUrl: null,
     });
-  }, [state.resultUrl]);
+  }, []);
 
   const downloadResult = useCallback((filename?: string) => {
     if (state.result) {
@@ -73,7 +97,10 @@ export const useRemix = () => {
 
   return {
     ...state,
+    resultUrl,
+    retry,
     remixImages,
+    cancel,
     reset,
     downloadResult,
   };
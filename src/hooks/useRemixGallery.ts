@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  MAX_STORED_REMIXES,
+  NewRemixRecord,
+  RemixRecord,
+  deleteRemix,
+  listRemixes,
+  saveRemix,
+} from '../utils/remixGallery';
+
+/**
+ * Every remix the user has made, newest first. The gallery is a nice-to-have:
+ * when IndexedDB is unavailable (e.g. some private browsing modes) remixing
+ * keeps working and `unavailable` is set instead of throwing.
+ */
+export const useRemixGallery = () => {
+  const [remixes, setRemixes] = useState<RemixRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    listRemixes()
+      .then(stored => {
+        if (active) setRemixes(stored);
+      })
+      .catch(error => {
+        console.warn('Remix gallery unavailable:', error);
+        if (active) setUnavailable(true);
+      })
+      .finally(() => {
+        if (active) setIsLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const addRemix = useCallback(async (remix: NewRemixRecord) => {
+    try {
+      const record = await saveRemix(remix);
+      setRemixes(prev => [record, ...prev].slice(0, MAX_STORED_REMIXES));
+      return record;
+    } catch (error) {
+      console.warn('Failed to save remix to the gallery:', error);
+      setUnavailable(true);
+      return null;
+    }
+  }, []);
+
+  const removeRemix = useCallback(async (id: string) => {
+    try {
+      await deleteRemix(id);
+      setRemixes(prev => prev.filter(remix => remix.id !== id));
+    } catch (error) {
+      console.error('Failed to delete remix:', error);
+    }
+  }, []);
+
+  return {
+    remixes,
+    isLoading,
+    unavailable,
+    addRemix,
+    removeRemix,
+  };
+};
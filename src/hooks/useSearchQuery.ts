@@ -0,0 +1,30 @@
+import { useCallback } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+
+export const SEARCH_PATH = '/search';
+
+export const buildSearchUrl = (query: string): string =>
+  `${SEARCH_PATH}?q=${encodeURIComponent(query)}`;
+
+// The `?q=` of /search is the single source of truth for the search query
+export const useSearchQuery = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isSearchPage = location.pathname === SEARCH_PATH;
+  const query = isSearchPage ? new URLSearchParams(location.search).get('q') ?? '' : '';
+
+  const setQuery = useCallback((value: string) => {
+    if (!value.trim()) {
+      // Clearing the search goes back to the full catalog
+      if (isSearchPage) {
+        navigate('/', { replace: true });
+      }
+      return;
+    }
+
+    // Each submitted search is its own history entry
+    navigate(buildSearchUrl(value.trim()));
+  }, [isSearchPage, navigate]);
+
+  return { query, setQuery, isSearchPage };
+};
@@ -0,0 +1,109 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Product } from '../types/Product';
+import { QueryCache } from '../services/queryCache';
+import { PRODUCTS_QUERY_KEY, fetchAllProducts } from './useProducts';
+import { SearchIndex, SearchMatches, buildSearchIndex, foldText, queryTerms, searchIndex } from '../utils/searchIndex';
+import { clearRecentSearches, getRecentSearches } from '../utils/recentSearches';
+
+export type SearchSuggestion =
+  | { type: 'product'; id: string; product: Product; matches: SearchMatches }
+  | { type: 'category'; id: string; category: string; count: number }
+  | { type: 'recent'; id: string; query: string };
+
+interface CategoryCount {
+  category: string;
+  folded: string;
+  count: number;
+}
+
+const MAX_PRODUCT_SUGGESTIONS = 5;
+const MAX_CATEGORY_SUGGESTIONS = 3;
+const MAX_RECENT_SUGGESTIONS = 3;
+const MAX_RECENT_WHEN_EMPTY = 5;
+
+const countCategories = (products: Product[]): CategoryCount[] => {
+  const counts = new Map<string, number>();
+  products.forEach(product =>
+    (product.categories || []).forEach(category => counts.set(category, (counts.get(category) || 0) + 1))
+  );
+  return Array.from(counts, ([category, count]) => ({ category, folded: foldText(category).text, count }));
+};
+
+const includesAll = (folded: string, terms: string[]): boolean =>
+  terms.every(term => folded.includes(term));
+
+/**
+ * Suggestions for the header search box. The catalog is only fetched once
+ * `enabled` (the box has focus), and suggestions are computed locally.
+ */
+export const useSearchSuggestions = (query: string, enabled: boolean) => {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [categories, setCategories] = useState<CategoryCount[]>([]);
+  const [recent, setRecent] = useState<string[]>(getRecentSearches);
+  const [catalogFailed, setCatalogFailed] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || index) {
+      return;
+    }
+
+    const controller = new AbortController();
+    setCatalogFailed(false);
+
+    // Shares the catalog entry of the query cache with the product grid
+    QueryCache.ensure(PRODUCTS_QUERY_KEY, fetchAllProducts, { signal: controller.signal })
+      .then((products) => {
+        if (controller.signal.aborted) return;
+        setIndex(buildSearchIndex(products));
+        setCategories(countCategories(products));
+      })
+      // Suggestions are optional: without the catalog only recent searches show up
+      .catch(() => !controller.signal.aborted && setCatalogFailed(true));
+
+    return () => controller.abort();
+  }, [enabled, index]);
+
+  // Searches made elsewhere since the box last had focus
+  useEffect(() => {
+    if (enabled) {
+      setRecent(getRecentSearches());
+    }
+  }, [enabled]);
+
+  const suggestions = useMemo<SearchSuggestion[]>(() => {
+    const terms = queryTerms(query);
+
+    if (terms.length === 0) {
+      return recent.slice(0, MAX_RECENT_WHEN_EMPTY).map(item => ({ type: 'recent', id: `recent-${item}`, query: item }));
+    }
+
+    const recentMatches: SearchSuggestion[] = recent
+      .filter(item => includesAll(foldText(item).text, terms))
+      .slice(0, MAX_RECENT_SUGGESTIONS)
+      .map(item => ({ type: 'recent', id: `recent-${item}`, query: item }));
+
+    const categoryMatches: SearchSuggestion[] = categories
+      .filter(entry => includesAll(entry.folded, terms))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_CATEGORY_SUGGESTIONS)
+      .map(({ category, count }) => ({ type: 'category', id: `category-${category}`, category, count }));
+
+    const productMatches: SearchSuggestion[] = index
+      ? searchIndex(index, query, MAX_PRODUCT_SUGGESTIONS).map(({ product, matches }) => ({
+        type: 'product',
+        id: `product-${product.id}`,
+        product,
+        matches,
+      }))
+      : [];
+
+    return [...productMatches, ...categoryMatches, ...recentMatches];
+  }, [query, index, categories, recent]);
+
+  const clearRecent = useCallback(() => {
+    clearRecentSearches();
+    setRecent([]);
+  }, []);
+
+  return { suggestions, loading: enabled && !index && !catalogFailed, clearRecent };
+};
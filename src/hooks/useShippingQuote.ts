@@ -0,0 +1,82 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Address } from '../types/Checkout';
+import { CartItem } from '../types/Cart';
+import { Money } from '../types/Money';
+import { ShippingService } from '../services/shippingService';
+import { ApiError, isAbortError, toApiError } from '../services/apiClient';
+
+export interface QuoteDestination {
+  zip_code: string;
+  country: string;
+}
+
+const toDestination = (address: Address | null): QuoteDestination => ({
+  zip_code: address?.zip_code ? String(address.zip_code) : '',
+  country: address?.country ?? '',
+});
+
+export const isValidDestination = (destination: QuoteDestination): boolean =>
+  /^\d{1,9}$/.test(destination.zip_code.trim()) && destination.country.trim().length > 0;
+
+export const useShippingQuote = (items: CartItem[]) => {
+  const [destination, setDestination] = useState<QuoteDestination>(() =>
+    toDestination(ShippingService.getSavedAddress())
+  );
+  const [quote, setQuote] = useState<Money | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const itemsKey = items.map(item => `${item.product_id}x${item.quantity}`).join(',');
+
+  const estimate = useCallback(async (target: QuoteDestination = destination) => {
+    if (!isValidDestination(target) || items.length === 0) {
+      return;
+    }
+
+    // Keep the rest of a previously saved address (checkout fills it in)
+    const saved = ShippingService.getSavedAddress();
+    const sameDestination = saved
+      && String(saved.zip_code) === target.zip_code.trim()
+      && saved.country === target.country.trim();
+    const address: Address = {
+      street_address: sameDestination ? saved.street_address : '',
+      city: sameDestination ? saved.city : '',
+      state: sameDestination ? saved.state : '',
+      country: target.country.trim(),
+      zip_code: Number(target.zip_code.trim()),
+    };
+
+    // Only the latest quote matters
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const cost = await ShippingService.getQuote(address, items, { signal: controller.signal });
+      setQuote(cost);
+      ShippingService.saveAddress(address);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(toApiError(err));
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLoading(false);
+      }
+    }
+    // itemsKey stands in for items
+  }, [destination, itemsKey]);
+
+  // Re-quote a remembered address when the items change (cached per combination)
+  useEffect(() => {
+    setQuote(null);
+    estimate();
+  }, [itemsKey]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { destination, setDestination, quote, loading, error, estimate };
+};
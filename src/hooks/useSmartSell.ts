@@ -1,36 +1,86 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { SmartSellService, SmartSellRequest, SmartSellResponse } from '../services/smartSellService';
+import { ApiError, RetryProgress, isAbortError, toApiError } from '../services/apiClient';
 
 interface UseSmartSellReturn {
   isLoading: boolean;
-  error: string | null;
-  result: SmartSellResponse | null;
+  retry: RetryProgress | null;
+  error: ApiError | null;
+  result: SmartSellResponse | null;  // Filled in as the reply streams
+  partial: boolean;  // The reply was cancelled before it was complete
   getRecommendation: (params: SmartSellRequest) => Promise<void>;
+  cancel: () => void;
   reset: () => void;
   copyRecommendation: () => Promise<boolean>;
 }
 
+// The matched product only arrives with the end of the stream
+const EMPTY_RESULT: SmartSellResponse = {
+  image_id: '',
+  sell_text: '',
+  image_base64: '',
+  product_id: '',
+  product_name: '',
+};
+
 export const useSmartSell = (): UseSmartSellReturn => {
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
   const [result, setResult] = useState<SmartSellResponse | null>(null);
+  const [partial, setPartial] = useState(false);
+  const [retry, setRetry] = useState<RetryProgress | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const resultRef = useRef(result);
+  resultRef.current = result;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
 
   const getRecommendation = useCallback(async (params: SmartSellRequest) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     try {
       setIsLoading(true);
       setError(null);
+      setResult(null);
+      setPartial(false);
 
-      const response = await SmartSellService.getProductRecommendation(params);
+      const response = await SmartSellService.getProductRecommendation(params, {
+        signal: controller.signal,
+        onRetry: setRetry,
+        onText: (sell_text) => {
+          if (controllerRef.current === controller) {
+            setResult(prev => ({ ...(prev ?? EMPTY_RESULT), sell_text }));
+          }
+        },
+      });
       setResult(response);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to get product recommendation';
-      setError(errorMessage);
+      if (isAbortError(err)) return;
+      // A reply that broke off halfway is not worth showing next to the error
+      setResult(null);
+      setError(toApiError(err));
       console.error('Smart sell error:', err);
     } finally {
-      setIsLoading(false);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRetry(null);
+        setIsLoading(false);
+      }
     }
   }, []);
 
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRetry(null);
+    setIsLoading(false);
+    // Whatever streamed in so far stays on screen
+    setPartial(resultRef.current !== null);
+  }, []);
+
   const copyRecommendation = useCallback(async (): Promise<boolean> => {
     if (!result?.sell_text) return false;
 
@@ -44,16 +94,22 @@ export const useSmartSell = (): UseSmartSellReturn => {
   }, [result?.sell_text]);
 
   const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
     setIsLoading(false);
     setError(null);
     setResult(null);
+    setPartial(false);
   }, []);
 
   return {
     isLoading,
+    retry,
     error,
     result,
+    partial,
     getRecommendation,
+    cancel,
     reset,
     copyRecommendation,
   };
@@ -0,0 +1,31 @@
+import { RequestOptions, api } from './apiClient';
+
+// Mirrors Ad from protos/demo.proto
+export interface Ad {
+  redirect_url: string;
+  text: string;
+}
+
+interface AdRequest {
+  context_keys: string[];
+}
+
+interface AdResponse {
+  ads: Ad[];
+}
+
+// REST gateway for hipstershop.AdService
+export class AdService {
+  static async getAds(contextKeys: string[], options: RequestOptions = {}): Promise<Ad[]> {
+    try {
+      const request: AdRequest = { context_keys: contextKeys };
+      const response = await api.post<AdResponse>('/ads', request, options);
+      return response.data.ads || [];
+    } catch (error) {
+      console.error('Error fetching ads:', error);
+      throw error;
+    }
+  }
+}
+
+export default AdService;
@@ -0,0 +1,208 @@
+import { AxiosRequestConfig } from 'axios';
+import { ApiError, RequestOptions, api, isAbortError } from './apiClient';
+
+export interface StreamOptions extends RequestOptions {
+  // Called with the whole text received so far, each time more of it arrives
+  onText?: (text: string) => void;
+}
+
+export interface StreamedReply<T> {
+  text: string;
+  fields: Partial<T>;  // The other fields of the response (ids, matched product...), if the backend sent them
+}
+
+const STREAM_ACCEPT = 'text/event-stream, application/x-ndjson, text/plain;q=0.9, application/json;q=0.8';
+
+// Keys a token/delta message may carry its piece of text under
+const DELTA_KEYS = ['delta', 'text', 'token', 'content', 'chunk'];
+
+type StreamFormat = 'sse' | 'ndjson' | 'json' | 'text';
+
+const formatFromContentType = (contentType: string): StreamFormat => {
+  if (contentType.includes('text/event-stream')) return 'sse';
+  if (contentType.includes('ndjson') || contentType.includes('jsonl')) return 'ndjson';
+  if (contentType.includes('json')) return 'json';
+  return 'text';
+};
+
+/**
+ * Accumulates a streamed AI reply. JSON messages either carry a delta (one of
+ * `DELTA_KEYS`) or the complete response, whose `textField` replaces the text
+ * so far; anything that is not JSON is taken as raw text.
+ */
+class ReplyParser<T extends object> {
+  readonly reply: StreamedReply<T> = { text: '', fields: {} };
+  private buffer = '';
+  private eventData: string[] = [];
+  private eventName = '';
+
+  constructor(
+    private readonly format: StreamFormat,
+    private readonly textField: keyof T & string,
+    private readonly url: string,
+    private readonly onText?: (text: string) => void
+  ) {}
+
+  push(chunk: string): void {
+    if (this.format === 'text') {
+      this.setText(this.reply.text + chunk);
+      return;
+    }
+
+    this.buffer += chunk;
+    if (this.format === 'json') {
+      return;
+    }
+
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    lines.forEach(line => this.handleLine(line));
+  }
+
+  end(): StreamedReply<T> {
+    if (this.format === 'json') {
+      this.handleMessage(this.buffer);
+    } else if (this.format !== 'text') {
+      this.handleLine(this.buffer);
+      this.handleLine('');  // Flush an SSE event that lacked its trailing blank line
+    }
+    this.buffer = '';
+    return this.reply;
+  }
+
+  private handleLine(line: string): void {
+    if (this.format === 'ndjson') {
+      if (line.trim()) this.handleMessage(line);
+      return;
+    }
+
+    // Server-Sent Events: `data:` lines accumulate until a blank line ends the event
+    if (line === '') {
+      if (this.eventData.length > 0) {
+        const data = this.eventData.join('\n');
+        const name = this.eventName;
+        this.eventData = [];
+        this.eventName = '';
+        if (name === 'error') {
+          throw new ApiError(data || 'The AI stream failed', { kind: 'server', url: this.url });
+        }
+        this.handleMessage(data);
+      }
+      this.eventName = '';
+    } else if (line.startsWith('data:')) {
+      this.eventData.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+    } else if (line.startsWith('event:')) {
+      this.eventName = line.slice(6).trim();
+    }
+    // `id:`, `retry:` and `:` comments (keep-alives) carry nothing for us
+  }
+
+  private handleMessage(payload: string): void {
+    if (payload.trim() === '[DONE]') {
+      return;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(payload);
+    } catch {
+      this.setText(this.reply.text + payload);
+      return;
+    }
+
+    if (typeof message === 'string') {
+      this.setText(this.reply.text + message);
+      return;
+    }
+    if (!message || typeof message !== 'object') {
+      return;
+    }
+
+    const record = message as Record<string, unknown>;
+    if (typeof record.error === 'string') {
+      throw new ApiError(record.error, { kind: 'server', url: this.url });
+    }
+
+    const fullText = record[this.textField];
+    const deltaKey = DELTA_KEYS.find(key => key !== this.textField && typeof record[key] === 'string');
+    const fields = Object.fromEntries(
+      Object.entries(record).filter(([key]) => key !== this.textField && key !== deltaKey)
+    );
+    this.reply.fields = { ...this.reply.fields, ...fields } as Partial<T>;
+
+    if (typeof fullText === 'string') {
+      this.setText(fullText);
+    } else if (deltaKey) {
+      this.setText(this.reply.text + (record[deltaKey] as string));
+    }
+  }
+
+  private setText(text: string): void {
+    if (text !== this.reply.text) {
+      this.reply.text = text;
+      this.onText?.(text);
+    }
+  }
+}
+
+/**
+ * POSTs to an AI endpoint and reads the reply as it arrives, through the
+ * fetch adapter (XHR cannot hand out a partial body). Understands
+ * Server-Sent Events, newline-delimited JSON and plain chunked text; a
+ * backend that ignores the stream flag and answers with the usual JSON body
+ * works too. `textField` names the field that holds the full text in a JSON
+ * response, e.g. `description`.
+ */
+export const postStream = async <T extends object>(
+  url: string,
+  body: FormData,
+  textField: keyof T & string,
+  config: AxiosRequestConfig,
+  onText?: (text: string) => void
+): Promise<StreamedReply<T>> => {
+  // With an upload progress handler the fetch adapter streams the body as a
+  // half-duplex request, which Chrome refuses over HTTP/1.1 (the dev backend)
+  const { onUploadProgress: _onUploadProgress, ...fetchConfig } = config;
+  const response = await api.post<ReadableStream<Uint8Array> | string>(url, body, {
+    ...fetchConfig,
+    adapter: 'fetch',
+    responseType: 'stream',
+    headers: { ...fetchConfig.headers, Accept: STREAM_ACCEPT },
+  });
+
+  const parser = new ReplyParser<T>(
+    formatFromContentType(String(response.headers['content-type'] ?? '')),
+    textField,
+    url,
+    onText
+  );
+
+  if (!(response.data instanceof ReadableStream)) {
+    parser.push(typeof response.data === 'string' ? response.data : JSON.stringify(response.data));
+    return parser.end();
+  }
+
+  const reader = response.data.getReader();
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // `stream: true` keeps a multi-byte character split across chunks intact
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+    parser.push(decoder.decode());
+  } catch (error) {
+    reader.cancel().catch(() => undefined);
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (config.signal?.aborted || isAbortError(error)) {
+      throw new ApiError('Request cancelled while streaming', { kind: 'aborted', url });
+    }
+    // The connection dropped halfway through the reply
+    throw new ApiError(error instanceof Error ? error.message : String(error), { kind: 'network', url });
+  }
+
+  return parser.end();
+};
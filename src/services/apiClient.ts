@@ -0,0 +1,361 @@
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+
+const API_BASE_URL_STORAGE_KEY = 'nero:apiBaseUrl';
+const DEFAULT_DEV_API_BASE_URL = 'http://34.61.215.100:8080';
+
+// Timeouts por tipo de endpoint (em ms)
+export const API_TIMEOUTS = {
+  default: 30000, // 30 segundos para conexões lentas
+  checkout: 60000, // 1 minuto: PlaceOrder cobra, envia e manda email
+  ai: 120000, // 2 minutos para AI processing
+  remix: 180000, // 3 minutos para geração de imagem
+} as const;
+
+export type ApiTimeout = keyof typeof API_TIMEOUTS;
+
+const isLocalHost = (): boolean => {
+  if (typeof window === 'undefined') return true;
+  const { hostname } = window.location;
+  return hostname === 'localhost' || hostname === '127.0.0.1';
+};
+
+const readStoredBaseUrl = (): string | null => {
+  try {
+    return typeof window !== 'undefined'
+      ? window.localStorage.getItem(API_BASE_URL_STORAGE_KEY)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolves the backend base URL. A runtime override (see `setApiBaseUrl`)
+ * wins; otherwise production goes through the `/api` proxy and local
+ * development talks to `VITE_API_BASE_URL` or the demo cluster directly.
+ */
+export const getApiBaseUrl = (): string => {
+  const override = readStoredBaseUrl();
+  if (override) {
+    return override;
+  }
+
+  if (!isLocalHost()) {
+    return '/api';
+  }
+
+  return import.meta.env.VITE_API_BASE_URL || DEFAULT_DEV_API_BASE_URL;
+};
+
+/**
+ * Points the app at another backend (staging, a local mock...) without a
+ * rebuild. Pass `null` to go back to the default resolution.
+ */
+export const setApiBaseUrl = (url: string | null): void => {
+  try {
+    if (url) {
+      window.localStorage.setItem(API_BASE_URL_STORAGE_KEY, url.replace(/\/+$/, ''));
+    } else {
+      window.localStorage.removeItem(API_BASE_URL_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to persist API base URL:', error);
+  }
+};
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'not-found'
+  | 'validation'
+  | 'payload-too-large'
+  | 'server'
+  | 'ai-refusal'
+  | 'unsupported'
+  | 'aborted'
+  | 'unknown';
+
+interface ApiErrorDetails {
+  kind?: ApiErrorKind;
+  status?: number;
+  code?: string;
+  method?: string;
+  url?: string;
+  data?: unknown;
+}
+
+// Kinds where sending the exact same request again can succeed
+const RETRYABLE_KINDS: ApiErrorKind[] = ['network', 'timeout', 'server', 'ai-refusal', 'unknown'];
+
+// The AI backend answers some refusals with a 4xx and a safety message instead of content
+const AI_REFUSAL_PATTERN = /(safety|blocked|refus|policy|cannot assist|can't help)/i;
+
+const kindFromStatus = (status: number, message: string): ApiErrorKind => {
+  if (status === 404) return 'not-found';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 413) return 'payload-too-large';
+  if (status === 400 || status === 422) {
+    return AI_REFUSAL_PATTERN.test(message) ? 'ai-refusal' : 'validation';
+  }
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly code?: string;
+  readonly method?: string;
+  readonly url?: string;
+  readonly data?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = details.kind ?? (details.status ? kindFromStatus(details.status, message) : 'unknown');
+    this.status = details.status;
+    this.code = details.code;
+    this.method = details.method;
+    this.url = details.url;
+    this.data = details.data;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  static fromAxios(error: AxiosError): ApiError {
+    const data = error.response?.data;
+    const serverMessage =
+      data && typeof data === 'object' && 'detail' in data && typeof data.detail === 'string'
+        ? data.detail
+        : null;
+    const message = serverMessage || error.message;
+
+    let kind: ApiErrorKind | undefined;
+    if (error.code === AxiosError.ERR_CANCELED) {
+      kind = 'aborted';
+    } else if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+      kind = 'timeout';
+    } else if (!error.response) {
+      kind = 'network';
+    }
+
+    return new ApiError(message, {
+      kind,
+      status: error.response?.status,
+      code: error.code,
+      method: error.config?.method?.toUpperCase(),
+      url: error.config?.url,
+      data,
+    });
+  }
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: ApiError) => boolean;
+}
+
+export interface RetryProgress {
+  attempt: number;  // 1-based, out of `retries`
+  retries: number;
+  error: ApiError;  // Why the previous attempt failed
+}
+
+// What a load balancer answers while pods come and go during a rollout
+const TRANSIENT_STATUSES = [429, 502, 503, 504];
+
+export const RETRY_POLICIES: Record<'idempotent' | 'connection', RetryPolicy> = {
+  // Reads: safe to send again whatever happened to the previous attempt
+  idempotent: {
+    retries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    shouldRetry: (error) =>
+      error.kind === 'network' || (error.status !== undefined && TRANSIENT_STATUSES.includes(error.status)),
+  },
+  // Slow or side-effecting POSTs: only when the request never got an answer at all
+  connection: {
+    retries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    shouldRetry: (error) => error.kind === 'network',
+  },
+};
+
+// Every service method takes these as its last argument
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onRetry?: (progress: RetryProgress) => void;
+  retry?: RetryPolicy | false;  // Overrides the default: `idempotent` for GETs, no retries otherwise
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig<D = any> {
+    onRetry?: (progress: RetryProgress) => void;
+    retry?: RetryPolicy | false;
+    retryAttempt?: number;
+  }
+}
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (axios.isAxiosError(error)) {
+    return ApiError.fromAxios(error);
+  }
+  return new ApiError(error instanceof Error ? error.message : String(error));
+};
+
+// True when the request was cancelled on purpose (unmount, new params, Cancel button)
+export const isAbortError = (error: unknown): boolean =>
+  toApiError(error).kind === 'aborted'
+  || (error instanceof DOMException && error.name === 'AbortError');
+
+/**
+ * Settles like `promise`, or rejects as aborted as soon as `signal` aborts.
+ * For callers of a request shared with others: giving up on it does not
+ * cancel it for everyone else.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const cancelled = () => new ApiError('Request cancelled', { kind: 'aborted' });
+    if (signal.aborted) {
+      reject(cancelled());
+      return;
+    }
+    const onAbort = () => reject(cancelled());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+const retryPolicyFor = (config: AxiosRequestConfig): RetryPolicy | false =>
+  config.retry ?? (config.method?.toLowerCase() === 'get' ? RETRY_POLICIES.idempotent : false);
+
+// Exponential backoff with "equal jitter", so clients knocked off by the same
+// rollout do not all come back at the same moment. A Retry-After header wins
+// when it asks for longer.
+const retryDelay = (policy: RetryPolicy, attempt: number, error: AxiosError): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = ceiling / 2 + Math.random() * (ceiling / 2);
+  const retryAfterMs = Number(error.response?.headers?.['retry-after']) * 1000;
+  return Math.round(Number.isFinite(retryAfterMs) ? Math.min(policy.maxDelayMs, Math.max(jittered, retryAfterMs)) : jittered);
+};
+
+const waitBeforeRetry = (delayMs: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cancelled = () => new ApiError('Request cancelled while waiting to retry', { kind: 'aborted' });
+    if (signal?.aborted) {
+      reject(cancelled());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * The AI endpoints answer 200 with empty text when the model declines to
+ * respond; surface that as an `ai-refusal` instead of rendering nothing.
+ */
+export const ensureAiContent = (text: string | undefined | null, url: string): string => {
+  if (!text || !text.trim()) {
+    throw new ApiError('The AI model did not return a response for this image.', {
+      kind: 'ai-refusal',
+      url,
+    });
+  }
+  return text;
+};
+
+export const api = axios.create({
+  timeout: API_TIMEOUTS.default,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Resolve base URL on every request so runtime overrides apply immediately
+api.interceptors.request.use(
+  (config) => {
+    config.baseURL = config.baseURL || getApiBaseUrl();
+    console.log(`🚀 API Request: ${config.method?.toUpperCase()} ${config.url}`);
+    return config;
+  },
+  (error) => {
+    console.error('❌ API Request Error:', error);
+    return Promise.reject(toApiError(error));
+  }
+);
+
+api.interceptors.response.use(
+  (response) => {
+    console.log(`✅ API Response: ${response.status} ${response.config.url}`);
+    return response;
+  },
+  (error) => {
+    if (axios.isCancel(error)) {
+      console.log(`🛑 API Request cancelled: ${error.config?.url}`);
+      return Promise.reject(toApiError(error));
+    }
+
+    const apiError = toApiError(error);
+    const config = axios.isAxiosError(error) ? error.config : undefined;
+    const policy = config ? retryPolicyFor(config) : false;
+    const attempt = (config?.retryAttempt ?? 0) + 1;
+
+    if (!config || !policy || attempt > policy.retries || !policy.shouldRetry(apiError)) {
+      console.error('❌ API Response Error:', error.response?.data || error.message);
+      return Promise.reject(apiError);
+    }
+
+    const delayMs = retryDelay(policy, attempt, error);
+    console.warn(`🔁 API Retry ${attempt}/${policy.retries} in ${delayMs}ms: ${apiError.method} ${config.url} (${apiError.message})`);
+    config.onRetry?.({ attempt, retries: policy.retries, error: apiError });
+
+    return waitBeforeRetry(delayMs, config.signal as AbortSignal | undefined)
+      .then(() => api.request({ ...config, retryAttempt: attempt }));
+  }
+);
+
+// Config for multipart uploads to the AI endpoints, with upload progress logging.
+// Re-sending an upload the backend may be processing is costly, so these only
+// retry when the connection itself failed.
+export const multipartConfig = (
+  timeout: ApiTimeout,
+  config: AxiosRequestConfig = {},
+  options: RequestOptions = {}
+): AxiosRequestConfig => ({
+  retry: RETRY_POLICIES.connection,
+  ...config,
+  ...options,
+  timeout: API_TIMEOUTS[timeout],
+  headers: {
+    'Content-Type': 'multipart/form-data',
+    ...config.headers,
+  },
+  onUploadProgress: (progressEvent) => {
+    if (progressEvent.total) {
+      const percentCompleted = Math.round((progressEvent.loaded * 100) / progressEvent.total);
+      console.log(`📤 Upload progress: ${percentCompleted}%`);
+    }
+  },
+});
+
+export default api;
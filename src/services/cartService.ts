@@ -0,0 +1,47 @@
+import { AddItemRequest, Cart, CartItem } from '../types/Cart';
+import { RequestOptions, api } from './apiClient';
+
+// REST gateway for hipstershop.CartService (AddItem, GetCart, EmptyCart)
+export class CartService {
+  static async getCart(userId: string, options: RequestOptions = {}): Promise<Cart> {
+    try {
+      const response = await api.get<Cart>(`/cart/${encodeURIComponent(userId)}`, options);
+      return {
+        user_id: response.data.user_id || userId,
+        items: response.data.items || [],
+      };
+    } catch (error) {
+      console.error(`Error fetching cart for ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  static async addItem(userId: string, item: CartItem, options: RequestOptions = {}): Promise<void> {
+    try {
+      const request: AddItemRequest = { user_id: userId, item };
+      await api.post('/cart', request, options);
+    } catch (error) {
+      console.error(`Error adding ${item.product_id} to cart:`, error);
+      throw error;
+    }
+  }
+
+  static async emptyCart(userId: string, options: RequestOptions = {}): Promise<void> {
+    try {
+      await api.delete(`/cart/${encodeURIComponent(userId)}`, options);
+    } catch (error) {
+      console.error(`Error emptying cart for ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  // CartService has no RemoveItem/UpdateItem: rewrite the whole cart instead
+  static async replaceItems(userId: string, items: CartItem[], options: RequestOptions = {}): Promise<void> {
+    await this.emptyCart(userId, options);
+    for (const item of items) {
+      await this.addItem(userId, item, options);
+    }
+  }
+}
+
+export default CartService;
@@ -0,0 +1,30 @@
+import { PlaceOrderRequest, PlaceOrderResponse, PlacedOrder } from '../types/Checkout';
+import { RequestOptions, api, API_TIMEOUTS } from './apiClient';
+import { toMoney } from '../utils/money';
+
+// REST gateway for hipstershop.CheckoutService
+export class CheckoutService {
+  static async placeOrder(request: PlaceOrderRequest, options: RequestOptions = {}): Promise<PlacedOrder> {
+    try {
+      const response = await api.post<PlaceOrderResponse>('/checkout', request, {
+        ...options,
+        timeout: API_TIMEOUTS.checkout,
+      });
+      const { order } = response.data;
+      // Charged in the user's currency, like the quote shown before
+      return {
+        ...order,
+        shipping_cost: toMoney(order.shipping_cost ?? {}, request.user_currency),
+        items: (order.items ?? []).map(({ item, cost }) => ({
+          item,
+          cost: toMoney(cost ?? {}, request.user_currency),
+        })),
+      };
+    } catch (error) {
+      console.error('Error placing order:', error);
+      throw error;
+    }
+  }
+}
+
+export default CheckoutService;
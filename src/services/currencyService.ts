@@ -0,0 +1,92 @@
+import { Money, MoneyLike } from '../types/Money';
+import { readStorage, writeStorage } from '../utils/session';
+import { isReadableMoney, moneyToNumber, toMoney } from '../utils/money';
+import { RequestOptions, api } from './apiClient';
+
+const RATES_STORAGE_KEY = 'nero:currencyRates';
+const RATE_TTL_MS = 60 * 60 * 1000; // 1 hora
+
+interface CachedRate {
+  rate: number;
+  fetchedAt: number;
+}
+
+interface GetSupportedCurrenciesResponse {
+  currency_codes: string[];
+}
+
+interface CurrencyConversionRequest {
+  from: Money;
+  to_code: string;
+}
+
+// Rate table keyed by target currency (all rates are from USD)
+let rateTable: Record<string, CachedRate> = readStorage(RATES_STORAGE_KEY, {});
+const pendingRates = new Map<string, Promise<number>>();
+
+// REST gateway for hipstershop.CurrencyService
+export class CurrencyService {
+  static async getSupportedCurrencies(options: RequestOptions = {}): Promise<string[]> {
+    try {
+      const response = await api.get<GetSupportedCurrenciesResponse>('/currencies', options);
+      return response.data.currency_codes;
+    } catch (error) {
+      console.error('Error fetching supported currencies:', error);
+      throw error;
+    }
+  }
+
+  static async convert(from: Money, toCode: string, options: RequestOptions = {}): Promise<Money> {
+    try {
+      const request: CurrencyConversionRequest = { from, to_code: toCode };
+      const response = await api.post<MoneyLike>('/currencies/convert', request, options);
+      return toMoney(response.data, toCode);
+    } catch (error) {
+      console.error(`Error converting ${from.currency_code} to ${toCode}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * USD → `toCode` rate. Converting 1 USD once and caching the result keeps
+   * us from calling Convert for every price on the page. Takes no signal:
+   * the pending request is shared by every caller.
+   */
+  static async getRate(toCode: string): Promise<number> {
+    if (toCode === 'USD') {
+      return 1;
+    }
+
+    const cached = rateTable[toCode];
+    if (cached && Date.now() - cached.fetchedAt < RATE_TTL_MS) {
+      return cached.rate;
+    }
+
+    const pending = pendingRates.get(toCode);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.convert({ currency_code: 'USD', units: 1, nanos: 0 }, toCode)
+      .then((money) => {
+        if (!isReadableMoney(money)) {
+          throw new Error(`Unreadable USD to ${toCode} rate`);
+        }
+        const rate = moneyToNumber(money);
+        rateTable = { ...rateTable, [toCode]: { rate, fetchedAt: Date.now() } };
+        writeStorage(RATES_STORAGE_KEY, rateTable);
+        return rate;
+      })
+      .catch((error) => {
+        // A stale rate is better than dropping back to USD
+        if (cached) return cached.rate;
+        throw error;
+      })
+      .finally(() => pendingRates.delete(toCode));
+
+    pendingRates.set(toCode, request);
+    return request;
+  }
+}
+
+export default CurrencyService;
@@ -1,16 +1,5 @@
-import axios from 'axios';
-
-// Detecta se está em produção (Vercel) ou desenvolvimento
-const getApiBaseUrl = () => {
-  // Se está em produção (Vercel), usa proxy relativo
-  if (typeof window !== 'undefined' && window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
-    return '/api';
-  }
-  // Se está em desenvolvimento, usa a URL direta
-  return import.meta.env.VITE_API_BASE_URL || 'http://34.61.215.100:8080';
-};
-
-const API_BASE_URL = getApiBaseUrl();
+import { api, ensureAiContent, multipartConfig } from './apiClient';
+import { StreamOptions, postStream } from './aiStream';
 
 export type DescribeType = 'product' | 'person';
 
@@ -25,31 +14,38 @@ export interface DescribeResponse {
 }
 
 export class DescribeService {
-  static async describeImage(request: DescribeRequest): Promise<DescribeResponse> {
+  // With `onText`, the description is streamed and reported as it is written
+  static async describeImage(
+    request: DescribeRequest,
+    { onText, ...options }: StreamOptions = {}
+  ): Promise<DescribeResponse> {
     try {
       const formData = new FormData();
 
       // Adicionar imagem
       formData.append('image', request.image);
+      if (onText) {
+        formData.append('stream', 'true');
+      }
 
       console.log(`🔍 Starting image description with type: "${request.type_prompt || 'product'}"`);
 
-      const response = await axios.post('/describe-image', formData, {
-        baseURL: API_BASE_URL,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
+      const config = multipartConfig('ai', {
         params: {
           type_prompt: request.type_prompt || 'product'
         },
-        timeout: 120000, // 2 minutos timeout para AI processing (para conexões lentas)
-        onUploadProgress: (progressEvent) => {
-          if (progressEvent.total) {
-            const percentCompleted = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-            console.log(`📤 Upload progress: ${percentCompleted}%`);
-          }
-        },
-      });
+      }, options);
+
+      if (onText) {
+        const { text, fields } = await postStream<DescribeResponse>('/describe-image', formData, 'description', config, onText);
+        ensureAiContent(text, '/describe-image');
+        console.log('✅ Image description stream completed');
+        return { image_id: '', ...fields, description: text };
+      }
+
+      const response = await api.post<DescribeResponse>('/describe-image', formData, config);
+
+      ensureAiContent(response.data.description, '/describe-image');
 
       console.log('✅ Image description completed successfully');
       return response.data;
@@ -1,34 +1,102 @@
-import axios from 'axios';
-
-// Detecta se está em produção (Vercel) ou desenvolvimento
-const getApiBaseUrl = () => {
-  // Se está em produção (Vercel), usa proxy relativo
-  if (typeof window !== 'undefined' && window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
-    return '/api';
-  }
-  // Se está em desenvolvimento, usa a URL direta
-  return import.meta.env.VITE_API_BASE_URL || 'http://34.61.215.100:8080';
-};
-
-const API_BASE_URL = getApiBaseUrl();
+import { ApiError, api, ensureAiContent, multipartConfig } from './apiClient';
+import { StreamOptions, postStream } from './aiStream';
 
 export interface FashionAssistantResponse {
   image_id: string;
   description: string;
+  suggestions?: string[];  // Follow-up questions, when the backend proposes some
+  follow_up?: boolean;  // Set on answers to a follow-up, see askFollowUp
+}
+
+export interface FashionChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface FashionFollowUpRequest {
+  image: File;  // The photo the conversation started from
+  imageId?: string;  // Its id from the first answer, so the backend can reuse the upload
+  question: string;
+  history: FashionChatTurn[];  // Earlier turns, oldest first
+  productName: string;
 }
 
+const FASHION_ENDPOINT = '/assistant-fashion';
+
+// Set once the backend answers a follow-up with a fresh analysis, so we stop asking
+let followUpsUnsupported = false;
+
+const followUpsUnsupportedError = () => new ApiError('The Fashion Assistant cannot answer follow-up questions yet.', {
+  kind: 'unsupported',
+  url: FASHION_ENDPOINT,
+});
+
+const sameAnswer = (a: string, b: string): boolean =>
+  a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+
+const send = async (
+  formData: FormData,
+  { onText, ...options }: StreamOptions
+): Promise<FashionAssistantResponse> => {
+  if (onText) {
+    formData.append('stream', 'true');
+    const { text, fields } = await postStream<FashionAssistantResponse>(
+      FASHION_ENDPOINT,
+      formData,
+      'description',
+      multipartConfig('ai', {}, options),
+      onText
+    );
+    ensureAiContent(text, FASHION_ENDPOINT);
+    return { image_id: '', ...fields, description: text };
+  }
+
+  const response = await api.post<FashionAssistantResponse>(
+    FASHION_ENDPOINT,
+    formData,
+    multipartConfig('ai', {}, options)
+  );
+
+  ensureAiContent(response.data.description, FASHION_ENDPOINT);
+  return response.data;
+};
+
 export class FashionService {
-  static async getFashionAdvice(image: File): Promise<FashionAssistantResponse> {
+  // With `onText`, the advice is streamed and reported as it is written
+  static async getFashionAdvice(image: File, options: StreamOptions = {}): Promise<FashionAssistantResponse> {
     const formData = new FormData();
     formData.append('image', image);
+    return send(formData, options);
+  }
 
-    const response = await axios.post(`${API_BASE_URL}/assistant-fashion`, formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-      timeout: 120000, // 2 minutos timeout para AI processing (para conexões lentas)
-    });
+  /**
+   * A follow-up in an ongoing conversation: the same photo plus everything
+   * said so far (`question`, `history`, `image_id`, `product_name`). A backend
+   * that ignores those fields just analyzes the photo again, so an answer
+   * without `follow_up: true`, or one repeating the first answer, is rejected
+   * rather than shown as the reply.
+   */
+  static async askFollowUp(request: FashionFollowUpRequest, options: StreamOptions = {}): Promise<FashionAssistantResponse> {
+    if (followUpsUnsupported) {
+      throw followUpsUnsupportedError();
+    }
+
+    const formData = new FormData();
+    formData.append('image', request.image);
+    if (request.imageId) {
+      formData.append('image_id', request.imageId);
+    }
+    formData.append('question', request.question);
+    formData.append('history', JSON.stringify(request.history));
+    formData.append('product_name', request.productName);
+    const response = await send(formData, options);
 
-    return response.data;
+    const firstAnswer = request.history.find(turn => turn.role === 'assistant')?.content;
+    if (response.follow_up !== true || (firstAnswer && sameAnswer(response.description, firstAnswer))) {
+      console.warn('Fashion Assistant ignored the follow-up fields, disabling follow-ups');
+      followUpsUnsupported = true;
+      throw followUpsUnsupportedError();
+    }
+    return response;
   }
 }
@@ -1,54 +1,17 @@
-import axios from 'axios';
-import { Product, ProductsApiResponse } from '../types/Product';
+import { Product, ProductsApiResponse, SearchProductsApiResponse } from '../types/Product';
+import { RequestOptions, api, toApiError } from './apiClient';
+import { buildSearchIndex, searchIndex } from '../utils/searchIndex';
 
-// Detecta se está em produção (Vercel) ou desenvolvimento
-const getApiBaseUrl = () => {
-  // Se está em produção (Vercel), usa proxy relativo
-  if (window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
-    return '/api';
-  }
-  // Se está em desenvolvimento, usa a URL direta
-  return import.meta.env.VITE_API_BASE_URL || 'http://34.61.215.100:8080';
-};
-
-const API_BASE_URL = getApiBaseUrl();
-
-const api = axios.create({
-  baseURL: API_BASE_URL,
-  timeout: 30000, // 30 segundos para conexões lentas
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
+// Set once the backend answers 404 for SearchProducts, so we stop asking
+let searchEndpointMissing = false;
 
-// Add request interceptor for logging
-api.interceptors.request.use(
-  (config) => {
-    console.log(`🚀 API Request: ${config.method?.toUpperCase()} ${config.url}`);
-    return config;
-  },
-  (error) => {
-    console.error('❌ API Request Error:', error);
-    return Promise.reject(error);
-  }
-);
-
-// Add response interceptor for logging
-api.interceptors.response.use(
-  (response) => {
-    console.log(`✅ API Response: ${response.status} ${response.config.url}`);
-    return response;
-  },
-  (error) => {
-    console.error('❌ API Response Error:', error.response?.data || error.message);
-    return Promise.reject(error);
-  }
-);
+const filterProducts = (products: Product[], query: string): Product[] =>
+  searchIndex(buildSearchIndex(products), query).map(result => result.product);
 
 export class ProductService {
-  static async getAllProducts(): Promise<Product[]> {
+  static async getAllProducts(options: RequestOptions = {}): Promise<Product[]> {
     try {
-      const response = await api.get<ProductsApiResponse>('/products');
+      const response = await api.get<ProductsApiResponse>('/products', options);
 
       // Nova API retorna { products: [...] } diretamente
       return response.data.products;
@@ -58,9 +21,9 @@ export class ProductService {
     }
   }
 
-  static async getProductById(id: string): Promise<Product> {
+  static async getProductById(id: string, options: RequestOptions = {}): Promise<Product> {
     try {
-      const response = await api.get<Product>(`/products/${id}`);
+      const response = await api.get<Product>(`/products/${id}`, options);
       return response.data;
     } catch (error) {
       console.error(`Error fetching product ${id}:`, error);
@@ -68,9 +31,9 @@ export class ProductService {
     }
   }
 
-  static async getProductByName(name: string): Promise<Product> {
+  static async getProductByName(name: string, options: RequestOptions = {}): Promise<Product> {
     try {
-      const response = await api.get<Product>(`/products-name/${encodeURIComponent(name)}`);
+      const response = await api.get<Product>(`/products-name/${encodeURIComponent(name)}`, options);
       return response.data;
     } catch (error) {
       console.error(`Error fetching product by name "${name}":`, error);
@@ -78,18 +41,27 @@ export class ProductService {
     }
   }
 
-  static async searchProducts(query: string): Promise<Product[]> {
+  static async searchProducts(query: string, options: RequestOptions = {}): Promise<Product[]> {
     try {
-      // Como a nova API não tem endpoint de busca,
-      // vamos buscar todos e filtrar localmente
-      const products = await this.getAllProducts();
-      const lowercaseQuery = query.toLowerCase();
+      if (!searchEndpointMissing) {
+        try {
+          const response = await api.get<SearchProductsApiResponse>('/products-search', {
+            ...options,
+            params: { query },
+          });
+          return response.data.results || [];
+        } catch (error) {
+          // Só backends sem SearchProducts caem para a busca local
+          if (toApiError(error).kind !== 'not-found') {
+            throw error;
+          }
+          console.warn('SearchProducts not available, filtering locally');
+          searchEndpointMissing = true;
+        }
+      }
 
-      return products.filter(product =>
-        product.name.toLowerCase().includes(lowercaseQuery) ||
-        product.description.toLowerCase().includes(lowercaseQuery) ||
-        product.categories.some(cat => cat.toLowerCase().includes(lowercaseQuery))
-      );
+      const products = await this.getAllProducts(options);
+      return filterProducts(products, query);
     } catch (error) {
       console.error(`Error searching products with query "${query}":`, error);
       throw error;
@@ -0,0 +1,238 @@
+import { ApiError, RequestOptions, RetryProgress, abortable, isAbortError, toApiError } from './apiClient';
+
+const DEFAULT_STALE_TIME_MS = 60 * 1000; // 1 minuto
+const GC_TIME_MS = 5 * 60 * 1000; // 5 minutos
+
+export interface QueryState<T> {
+  data?: T;
+  error: ApiError | null;
+  updatedAt: number;  // When `data` was fetched; 0 before the first success
+  fetching: boolean;
+  retry: RetryProgress | null;  // While the request in flight is being retried
+  stale: boolean;  // Set by invalidation; `updatedAt` + staleTime covers ageing
+}
+
+// Receives the options to hand to the service call: the abort signal and retry reporting
+export type QueryFetcher<T> = (options: RequestOptions) => Promise<T>;
+
+interface CacheEntry {
+  state: QueryState<unknown>;
+  promise: Promise<unknown> | null;
+  controller: AbortController | null;  // Aborts `promise` once nobody needs it any more
+  waiters: number;  // `ensure` callers awaiting `promise` without subscribing
+  fetcher: QueryFetcher<unknown> | null;  // Last fetcher, reused to refetch on invalidation
+  listeners: Set<() => void>;
+  unusedSince: number | null;  // When the last subscriber or waiter left; null while in use
+}
+
+export interface EnsureOptions {
+  staleTime?: number;
+  signal?: AbortSignal;  // Stops this caller waiting; the request goes on while others need it
+}
+
+const INITIAL_STATE: QueryState<unknown> = {
+  error: null,
+  updatedAt: 0,
+  fetching: false,
+  retry: null,
+  stale: false,
+};
+
+const entries = new Map<string, CacheEntry>();
+
+const getEntry = (key: string): CacheEntry => {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = {
+      state: INITIAL_STATE,
+      promise: null,
+      controller: null,
+      waiters: 0,
+      fetcher: null,
+      listeners: new Set(),
+      unusedSince: Date.now(),
+    };
+    entries.set(key, entry);
+    scheduleSweep();
+  }
+  return entry;
+};
+
+let sweepTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Forgets entries nobody has used for GC_TIME_MS, so every search, category
+// and product visited does not stay in memory for the life of the tab
+const sweep = (): void => {
+  sweepTimer = null;
+  const now = Date.now();
+  let pending = false;
+
+  entries.forEach((entry, key) => {
+    if (entry.listeners.size > 0 || entry.waiters > 0 || entry.unusedSince === null) {
+      return;
+    }
+    // A request still in flight gets to settle first
+    if (!entry.promise && now - entry.unusedSince >= GC_TIME_MS) {
+      entries.delete(key);
+    } else {
+      pending = true;
+    }
+  });
+
+  if (pending) {
+    scheduleSweep();
+  }
+};
+
+// One timer for the whole cache rather than one per entry
+function scheduleSweep(): void {
+  if (!sweepTimer) {
+    sweepTimer = setTimeout(sweep, GC_TIME_MS);
+  }
+}
+
+// Once no subscriber or `ensure` caller is left, aborts the request in
+// flight and starts the clock for evicting the entry
+const releaseIfUnused = (key: string, entry: CacheEntry): void => {
+  if (entry.listeners.size > 0 || entry.waiters > 0) {
+    return;
+  }
+  if (entry.controller) {
+    entry.controller.abort();
+    // Detach right away, so a remount starts a new request instead of joining the aborted one
+    entry.promise = null;
+    entry.controller = null;
+    setState(key, { fetching: false, retry: null });
+  }
+  entry.unusedSince = Date.now();
+  scheduleSweep();
+};
+
+// States are replaced, never mutated, so subscribers can compare snapshots by reference
+const setState = (key: string, changes: Partial<QueryState<unknown>>): void => {
+  const entry = getEntry(key);
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach(listener => listener());
+};
+
+// Stable key for an endpoint and its params: { b: 1, a: 2 } and { a: 2, b: 1 } match
+export const queryKey = (endpoint: string, params?: Record<string, unknown>): string => {
+  if (!params) {
+    return endpoint;
+  }
+  const sorted = Object.keys(params).sort().map(name => [name, params[name]]);
+  return `${endpoint}?${JSON.stringify(sorted)}`;
+};
+
+/**
+ * In-memory cache for GET-style requests, keyed by `queryKey`. Concurrent
+ * fetches of the same key share one request, and cached data keeps being
+ * served while a stale entry revalidates in the background.
+ */
+export class QueryCache {
+  static getState<T>(key: string): QueryState<T> {
+    return getEntry(key).state as QueryState<T>;
+  }
+
+  static isStale(key: string, staleTime: number = DEFAULT_STALE_TIME_MS): boolean {
+    const { state } = getEntry(key);
+    return state.stale || state.updatedAt === 0 || Date.now() - state.updatedAt > staleTime;
+  }
+
+  /**
+   * When the last subscriber leaves (unmount, or a key change such as a new
+   * product id) an in-flight request nobody else awaits is aborted, and the
+   * entry is evicted if nothing uses it again within GC_TIME_MS.
+   */
+  static subscribe(key: string, listener: () => void): () => void {
+    const entry = getEntry(key);
+    entry.listeners.add(listener);
+    entry.unusedSince = null;
+    return () => {
+      entry.listeners.delete(listener);
+      releaseIfUnused(key, entry);
+    };
+  }
+
+  static fetch<T>(key: string, fetcher: QueryFetcher<T>): Promise<T> {
+    const entry = getEntry(key);
+    entry.fetcher = fetcher as QueryFetcher<unknown>;
+    if (entry.promise) {
+      return entry.promise as Promise<T>;
+    }
+
+    const controller = new AbortController();
+    setState(key, { fetching: true });
+    const promise: Promise<T> = fetcher({
+      signal: controller.signal,
+      onRetry: (retry) => setState(key, { retry }),
+    })
+      .then((data) => {
+        setState(key, { data, error: null, updatedAt: Date.now(), fetching: false, retry: null, stale: false });
+        return data;
+      })
+      .catch((error) => {
+        // An aborted request was already detached by `subscribe`, and is no failure.
+        // Otherwise keep serving the last good data and report the error alongside it.
+        if (!isAbortError(error)) {
+          setState(key, { error: toApiError(error), fetching: false, retry: null });
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (entry.promise === promise) {
+          entry.promise = null;
+          entry.controller = null;
+        }
+      });
+
+    entry.promise = promise;
+    entry.controller = controller;
+    return promise;
+  }
+
+  // Cached data when it is still fresh, otherwise a (shared) fetch
+  static ensure<T>(key: string, fetcher: QueryFetcher<T>, { staleTime, signal }: EnsureOptions = {}): Promise<T> {
+    const { data } = QueryCache.getState<T>(key);
+    if (data !== undefined && !QueryCache.isStale(key, staleTime)) {
+      return Promise.resolve(data);
+    }
+
+    // Keeps the request alive even if every subscriber of the key leaves meanwhile
+    const entry = getEntry(key);
+    entry.waiters++;
+    entry.unusedSince = null;
+    return abortable(QueryCache.fetch(key, fetcher), signal).finally(() => {
+      entry.waiters--;
+      releaseIfUnused(key, entry);
+    });
+  }
+
+  // Seeds an entry, e.g. product details from a list response
+  static setData<T>(key: string, data: T): void {
+    setState(key, { data, error: null, updatedAt: Date.now(), stale: false });
+  }
+
+  /**
+   * Marks every entry whose key starts with `prefix` as stale (all of them
+   * without a prefix). Entries someone is watching refetch right away; the
+   * rest refetch the next time they are used.
+   */
+  static invalidate(prefix: string = ''): Promise<void> {
+    const refetches: Promise<unknown>[] = [];
+
+    entries.forEach((entry, key) => {
+      if (!key.startsWith(prefix)) {
+        return;
+      }
+      setState(key, { stale: true });
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        refetches.push(QueryCache.fetch(key, entry.fetcher).catch(() => undefined));
+      }
+    });
+
+    return Promise.all(refetches).then(() => undefined);
+  }
+}
+
+export default QueryCache;
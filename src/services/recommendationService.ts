@@ -0,0 +1,89 @@
+import { Product } from '../types/Product';
+import { RequestOptions, api, isAbortError } from './apiClient';
+import { ProductService } from './productService';
+
+interface ListRecommendationsRequest {
+  user_id: string;
+  product_ids: string[];
+}
+
+interface ListRecommendationsResponse {
+  product_ids: string[];
+}
+
+export type RecommendationSource = 'service' | 'categories';
+
+export interface Recommendations {
+  products: Product[];
+  source: RecommendationSource;
+}
+
+// Ranks the catalog by how many categories each product shares with the context products
+export const recommendByCategories = (
+  catalog: Product[],
+  contextIds: string[],
+  limit: number
+): Product[] => {
+  const contextCategories = new Set(
+    catalog
+      .filter(product => contextIds.includes(product.id))
+      .flatMap(product => product.categories || [])
+      .map(category => category.toLowerCase())
+  );
+
+  return catalog
+    .filter(product => !contextIds.includes(product.id))
+    .map(product => ({
+      product,
+      overlap: (product.categories || []).filter(category =>
+        contextCategories.has(category.toLowerCase())
+      ).length,
+    }))
+    .filter(({ overlap }) => overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, limit)
+    .map(({ product }) => product);
+};
+
+// REST gateway for hipstershop.RecommendationService
+export class RecommendationService {
+  static async listRecommendations(
+    userId: string,
+    productIds: string[],
+    options: RequestOptions = {}
+  ): Promise<string[]> {
+    const request: ListRecommendationsRequest = { user_id: userId, product_ids: productIds };
+    const response = await api.post<ListRecommendationsResponse>('/recommendations', request, options);
+    return response.data.product_ids || [];
+  }
+
+  /**
+   * Recommended products for the given context, resolved to full records.
+   * Falls back to category overlap when the service is unavailable.
+   */
+  static async getRecommendations(
+    userId: string,
+    productIds: string[],
+    limit: number = 4,
+    options: RequestOptions = {}
+  ): Promise<Recommendations> {
+    try {
+      const ids = (await this.listRecommendations(userId, productIds, options))
+        .filter(id => !productIds.includes(id))
+        .slice(0, limit);
+      const results = await Promise.allSettled(ids.map(id => ProductService.getProductById(id, options)));
+      const products = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+
+      return { products, source: 'service' };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.warn('Recommendation service unavailable, matching by category:', error);
+      const catalog = await ProductService.getAllProducts(options);
+      return { products: recommendByCategories(catalog, productIds, limit), source: 'categories' };
+    }
+  }
+}
+
+export default RecommendationService;
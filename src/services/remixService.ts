@@ -1,16 +1,4 @@
-import axios from 'axios';
-
-// Detecta se está em produção (Vercel) ou desenvolvimento
-const getApiBaseUrl = () => {
-  // Se está em produção (Vercel), usa proxy relativo
-  if (typeof window !== 'undefined' && window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
-    return '/api';
-  }
-  // Se está em desenvolvimento, usa a URL direta
-  return import.meta.env.VITE_API_BASE_URL || 'http://34.61.215.100:8080';
-};
-
-const API_BASE_URL = getApiBaseUrl();
+import { RequestOptions, api, multipartConfig } from './apiClient';
 
 export interface RemixRequest {
   image1: File;  // Imagem do usuário
@@ -20,7 +8,7 @@ export interface RemixRequest {
 }
 
 export class RemixService {
-  static async remixImages(request: RemixRequest): Promise<Blob> {
+  static async remixImages(request: RemixRequest, options: RequestOptions = {}): Promise<Blob> {
     try {
       const formData = new FormData();
 
@@ -34,20 +22,9 @@ export class RemixService {
 
       console.log(`🎨 Starting image remix with prompt: "${request.prompt}"`);
 
-      const response = await axios.post('/remix-images', formData, {
-        baseURL: API_BASE_URL,
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
+      const response = await api.post<Blob>('/remix-images', formData, multipartConfig('remix', {
         responseType: 'blob', // Importante: receber como blob para imagens
-        timeout: 180000, // 3 minutos timeout para AI processing (para conexões lentas)
-        onUploadProgress: (progressEvent) => {
-          if (progressEvent.total) {
-            const percentCompleted = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-            console.log(`📤 Upload progress: ${percentCompleted}%`);
-          }
-        },
-      });
+      }, options));
 
       console.log('✅ Image remix completed successfully');
       return response.data;
@@ -57,6 +34,21 @@ export class RemixService {
     }
   }
 
+  // Fetches a catalog product's picture as a File, ready to send as `image2`
+  static async loadProductImage(picture: string, productName: string): Promise<File> {
+    const imageUrl = picture.startsWith('http')
+      ? picture
+      : `${window.location.origin}${picture}`;
+
+    try {
+      const response = await fetch(imageUrl);
+      const blob = await response.blob();
+      return new File([blob], `${productName.toLowerCase().replace(/\s+/g, '-')}.jpg`, { type: blob.type });
+    } catch (error) {
+      throw new Error('Failed to load product image');
+    }
+  }
+
   // Função auxiliar para converter File para URL local (preview)
   static createPreviewUrl(file: File): string {
     return URL.createObjectURL(file);
@@ -0,0 +1,106 @@
+import { Address, GetQuoteRequest, GetQuoteResponse } from '../types/Checkout';
+import { CartItem } from '../types/Cart';
+import { Money } from '../types/Money';
+import { readStorage, writeStorage } from '../utils/session';
+import { toMoney } from '../utils/money';
+import { RequestOptions, abortable, api } from './apiClient';
+
+const SHIPPING_ADDRESS_STORAGE_KEY = 'nero:shippingAddress';
+const QUOTE_TTL_MS = 10 * 60 * 1000; // 10 minutos
+
+interface CachedQuote {
+  request: Promise<Money>;
+  createdAt: number;
+  controller: AbortController;  // Aborts `request` once no caller is waiting for it
+  waiters: number;
+  settled: boolean;
+}
+
+// Quotes keyed by address + items, so re-renders and revisits don't refetch
+const quoteCache = new Map<string, CachedQuote>();
+
+const quoteKey = (address: Address, items: CartItem[]): string => {
+  const normalizedItems = items
+    .map(item => `${item.product_id}x${item.quantity}`)
+    .sort()
+    .join(',');
+  return [
+    address.country.trim().toLowerCase(),
+    address.zip_code,
+    address.state.trim().toLowerCase(),
+    address.city.trim().toLowerCase(),
+    address.street_address.trim().toLowerCase(),
+    normalizedItems,
+  ].join('|');
+};
+
+// REST gateway for hipstershop.ShippingService
+export class ShippingService {
+  /**
+   * Callers asking for the same quote share one request. Each caller's
+   * `signal` only stops that caller waiting; the request itself is aborted
+   * when every caller has given up on it.
+   */
+  static async getQuote(address: Address, items: CartItem[], { signal, ...options }: RequestOptions = {}): Promise<Money> {
+    const key = quoteKey(address, items);
+    let entry = quoteCache.get(key);
+    if (!entry || Date.now() - entry.createdAt >= QUOTE_TTL_MS) {
+      entry = ShippingService.requestQuote(key, address, items, options);
+    }
+
+    const shared = entry;
+    shared.waiters++;
+    try {
+      return await abortable(shared.request, signal);
+    } finally {
+      shared.waiters--;
+      if (shared.waiters === 0 && !shared.settled) {
+        shared.controller.abort();
+        // Drop the aborted quote right away, so asking again sends a new request
+        if (quoteCache.get(key) === shared) {
+          quoteCache.delete(key);
+        }
+      }
+    }
+  }
+
+  private static requestQuote(key: string, address: Address, items: CartItem[], options: RequestOptions): CachedQuote {
+    const controller = new AbortController();
+    const request = (async () => {
+      try {
+        const body: GetQuoteRequest = { address, items };
+        const response = await api.post<GetQuoteResponse>('/shipping/quote', body, {
+          ...options,
+          signal: controller.signal,
+        });
+        return toMoney(response.data.cost_usd, 'USD');
+      } catch (error) {
+        console.error('Error fetching shipping quote:', error);
+        if (quoteCache.get(key)?.controller === controller) {
+          quoteCache.delete(key);
+        }
+        throw error;
+      }
+    })();
+
+    const entry: CachedQuote = { request, createdAt: Date.now(), controller, waiters: 0, settled: false };
+    // Registered before any caller's handlers, so it is set by the time they run
+    request.then(
+      () => { entry.settled = true; },
+      () => { entry.settled = true; }
+    );
+    quoteCache.set(key, entry);
+    return entry;
+  }
+
+  // Last address used for a quote or an order, remembered between visits
+  static getSavedAddress(): Address | null {
+    return readStorage<Address | null>(SHIPPING_ADDRESS_STORAGE_KEY, null);
+  }
+
+  static saveAddress(address: Address): void {
+    writeStorage(SHIPPING_ADDRESS_STORAGE_KEY, address);
+  }
+}
+
+export default ShippingService;
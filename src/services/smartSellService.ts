@@ -1,16 +1,5 @@
-import axios from 'axios';
-
-// Detecta se está em produção (Vercel) ou desenvolvimento
-const getApiBaseUrl = () => {
-  // Se está em produção (Vercel), usa proxy relativo
-  if (typeof window !== 'undefined' && window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
-    return '/api';
-  }
-  // Se está em desenvolvimento, usa a URL direta
-  return import.meta.env.VITE_API_BASE_URL || 'http://34.61.215.100:8080';
-};
-
-const API_BASE_URL = getApiBaseUrl();
+import { api, ensureAiContent, multipartConfig } from './apiClient';
+import { StreamOptions, postStream } from './aiStream';
 
 export interface SmartSellRequest {
   image: File;
@@ -28,20 +17,38 @@ export interface SmartSellResponse {
 }
 
 export class SmartSellService {
-  static async getProductRecommendation(params: SmartSellRequest): Promise<SmartSellResponse> {
+  // Streams when `params.stream` is set or `onText` is given. The matched
+  // product (id, name, image) only arrives with the end of the stream.
+  static async getProductRecommendation(
+    params: SmartSellRequest,
+    { onText, ...options }: StreamOptions = {}
+  ): Promise<SmartSellResponse> {
+    const stream = params.stream || !!onText;
     const formData = new FormData();
     formData.append('image', params.image);
     formData.append('text', params.text);
     formData.append('model_name', params.model_name || 'gemini-1.5-pro');
-    formData.append('stream', (params.stream || false).toString());
+    formData.append('stream', stream.toString());
+
+    if (stream) {
+      const { text, fields } = await postStream<SmartSellResponse>(
+        '/sell-product-from-query',
+        formData,
+        'sell_text',
+        multipartConfig('ai', {}, options),
+        onText
+      );
+      ensureAiContent(text, '/sell-product-from-query');
+      return { image_id: '', image_base64: '', product_id: '', product_name: '', ...fields, sell_text: text };
+    }
 
-    const response = await axios.post(`${API_BASE_URL}/sell-product-from-query`, formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-      timeout: 120000, // 2 minutos timeout para AI processing (para conexões lentas)
-    });
+    const response = await api.post<SmartSellResponse>(
+      '/sell-product-from-query',
+      formData,
+      multipartConfig('ai', {}, options)
+    );
 
+    ensureAiContent(response.data.sell_text, '/sell-product-from-query');
     return response.data;
   }
 }
@@ -0,0 +1,15 @@
+// Mirrors CartItem / Cart from protos/demo.proto
+export interface CartItem {
+  product_id: string;
+  quantity: number;
+}
+
+export interface Cart {
+  user_id: string;
+  items: CartItem[];
+}
+
+export interface AddItemRequest {
+  user_id: string;
+  item: CartItem;
+}
@@ -0,0 +1,59 @@
+import { CartItem } from './Cart';
+import { Money, MoneyLike } from './Money';
+
+// Mirrors the checkout messages from protos/demo.proto
+export interface Address {
+  street_address: string;
+  city: string;
+  state: string;
+  country: string;
+  zip_code: number;
+}
+
+export interface CreditCardInfo {
+  credit_card_number: string;
+  credit_card_cvv: number;
+  credit_card_expiration_year: number;
+  credit_card_expiration_month: number;
+}
+
+export interface PlaceOrderRequest {
+  user_id: string;
+  user_currency: string;
+  address: Address;
+  email: string;
+  credit_card: CreditCardInfo;
+}
+
+// Amounts arrive as proto3 JSON (string units, zero fields omitted)
+export interface OrderItem {
+  item: CartItem;
+  cost: MoneyLike;
+}
+
+export interface OrderResult {
+  order_id: string;
+  shipping_tracking_id: string;
+  shipping_cost: MoneyLike;
+  shipping_address: Address;
+  items: OrderItem[];
+}
+
+export interface PlaceOrderResponse {
+  order: OrderResult;
+}
+
+// An OrderResult with its amounts normalized, as CheckoutService returns it
+export interface PlacedOrder extends Omit<OrderResult, 'shipping_cost' | 'items'> {
+  shipping_cost: Money;
+  items: { item: CartItem; cost: Money }[];
+}
+
+export interface GetQuoteRequest {
+  address: Address;
+  items: CartItem[];
+}
+
+export interface GetQuoteResponse {
+  cost_usd: MoneyLike;
+}
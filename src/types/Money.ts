@@ -0,0 +1,20 @@
+// Mirrors Money from protos/demo.proto
+export interface Money {
+  // The 3-letter currency code defined in ISO 4217.
+  currency_code: string;
+  // The whole units of the amount.
+  units: number;
+  // Number of nano (10^-9) units of the amount, same sign as `units`.
+  nanos: number;
+}
+
+// Money as it arrives over JSON: proto3 serializes int64 `units` as a string
+// and omits zero fields.
+export interface MoneyLike {
+  currency_code?: string;
+  units?: number | string;
+  nanos?: number;
+}
+
+// Prices are either the legacy decimal string ("19.99") or a proto Money
+export type PriceValue = string | MoneyLike;
@@ -1,9 +1,11 @@
+import { PriceValue } from './Money';
+
 export interface Product {
   id: string;
   name: string;
   description: string;
   picture: string;
-  price: string;  // Now it's a simple string
+  price: PriceValue;  // Legacy decimal string, or Money when the gateway forwards price_usd
   categories: string[];
 }
 
@@ -12,6 +14,11 @@ export interface ProductsApiResponse {
   products: Product[];
 }
 
+// SearchProductsResponse from protos/demo.proto
+export interface SearchProductsApiResponse {
+  results: Product[];
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
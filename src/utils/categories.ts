@@ -0,0 +1,23 @@
+import { Product } from '../types/Product';
+import { foldText } from './searchIndex';
+
+// "Home & Garden" → "home-garden"; accents are folded so slugs stay ASCII-friendly
+export const toCategorySlug = (category: string): string =>
+  foldText(category).text.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+
+export const categoryPath = (category: string): string =>
+  `/category/${encodeURIComponent(toCategorySlug(category))}`;
+
+// The category as spelled in the catalog, or null when no product carries it
+export const findCategoryBySlug = (products: Product[], slug: string): string | null => {
+  for (const product of products) {
+    const match = (product.categories || []).find(category => toCategorySlug(category) === slug);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+};
+
+export const productsInCategory = (products: Product[], slug: string): Product[] =>
+  products.filter(product => (product.categories || []).some(category => toCategorySlug(category) === slug));
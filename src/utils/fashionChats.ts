@@ -0,0 +1,56 @@
+import { readStorage, writeStorage } from './session';
+
+const FASHION_CHATS_STORAGE_KEY = 'nero:fashionChats';
+const MAX_STORED_CHATS = 10;
+const MAX_STORED_MESSAGES = 40;
+
+export interface FashionChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  partial?: boolean;  // Cancelled before the reply was complete
+}
+
+export interface FashionChat {
+  messages: FashionChatMessage[];
+  imageId: string | null;
+  suggestions: string[];
+  updatedAt: number;
+}
+
+type StoredChats = Record<string, FashionChat>;
+
+// The photo a conversation is about. Files do not fit in localStorage, so
+// it lives for the session only; after a reload the user uploads it again.
+const chatImages = new Map<string, File>();
+
+export const getFashionChat = (productId: string): FashionChat | null =>
+  readStorage<StoredChats>(FASHION_CHATS_STORAGE_KEY, {})[productId] ?? null;
+
+// Keeps the most recently used conversations only
+export const saveFashionChat = (productId: string, chat: Omit<FashionChat, 'updatedAt'>): void => {
+  const chats = readStorage<StoredChats>(FASHION_CHATS_STORAGE_KEY, {});
+  chats[productId] = {
+    ...chat,
+    messages: chat.messages.slice(-MAX_STORED_MESSAGES),
+    updatedAt: Date.now(),
+  };
+
+  const kept = Object.entries(chats)
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_STORED_CHATS);
+  writeStorage(FASHION_CHATS_STORAGE_KEY, Object.fromEntries(kept));
+};
+
+export const clearFashionChat = (productId: string): void => {
+  const { [productId]: _removed, ...rest } = readStorage<StoredChats>(FASHION_CHATS_STORAGE_KEY, {});
+  writeStorage(FASHION_CHATS_STORAGE_KEY, rest);
+  chatImages.delete(productId);
+};
+
+export const getFashionChatImage = (productId: string): File | null =>
+  chatImages.get(productId) ?? null;
+
+export const setFashionChatImage = (productId: string, image: File): void => {
+  chatImages.set(productId, image);
+};
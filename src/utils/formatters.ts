@@ -1,16 +1,16 @@
-export const formatPrice = (price: string): string => {
-  const amount = parseFloat(price);
+import { Money, PriceValue } from '../types/Money';
+import { isReadableMoney, moneyToNumber, toMoney } from './money';
 
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+const getLocale = (): string =>
+  (typeof navigator !== 'undefined' && navigator.language) || 'en-US';
+
+export const formatPrice = (price: PriceValue | number, currencyCode: string = 'USD'): string => {
+  return formatMoney(toMoney(price, currencyCode));
 };
 
+// Fraction digits follow the currency (JPY has none, USD has two...)
 export const formatCurrency = (amount: number, currencyCode: string = 'USD'): string => {
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(getLocale(), {
     style: 'currency',
     currency: currencyCode,
   }).format(amount);
@@ -23,3 +23,11 @@ export const truncateText = (text: string, maxLength: number): string => {
 
   return text.substring(0, maxLength).trim() + '...';
 };
+
+// An amount we could not read shows as a dash rather than a made-up price
+export const formatMoney = (money: Money): string => {
+  if (!isReadableMoney(money)) {
+    return '—';
+  }
+  return formatCurrency(moneyToNumber(money), money.currency_code || 'USD');
+};
@@ -0,0 +1,140 @@
+import { Money, MoneyLike, PriceValue } from '../types/Money';
+import { Product } from '../types/Product';
+
+const NANOS_PER_UNIT = 1_000_000_000n;
+const DEFAULT_CURRENCY = 'USD';
+
+// All arithmetic goes through an exact bigint count of nanos
+const toNanos = (money: Money): bigint =>
+  BigInt(money.units) * NANOS_PER_UNIT + BigInt(money.nanos);
+
+// bigint division truncates toward zero, so units and nanos keep the same sign
+const fromNanos = (currencyCode: string, nanos: bigint): Money => ({
+  currency_code: currencyCode,
+  units: Number(nanos / NANOS_PER_UNIT),
+  nanos: Number(nanos % NANOS_PER_UNIT),
+});
+
+export const zeroMoney = (currencyCode: string = DEFAULT_CURRENCY): Money => ({
+  currency_code: currencyCode,
+  units: 0,
+  nanos: 0,
+});
+
+// Amounts the API sent in a shape we cannot read. They count as zero in
+// arithmetic, taint every result they are part of, and are shown as "—"
+const unreadableAmounts = new WeakSet<Money>();
+
+const unreadableMoney = (value: unknown, currencyCode: string): Money => {
+  console.warn('Unreadable money amount:', value);
+  const money = zeroMoney(currencyCode);
+  unreadableAmounts.add(money);
+  return money;
+};
+
+export const isReadableMoney = (money: Money): boolean => !unreadableAmounts.has(money);
+
+const taint = (result: Money, ...sources: Money[]): Money => {
+  if (sources.some(source => unreadableAmounts.has(source))) {
+    unreadableAmounts.add(result);
+  }
+  return result;
+};
+
+/**
+ * Parses a decimal string ("19.99", "-1.75", "$1,299.00") without going
+ * through floating point. Digits past the 9th decimal place are dropped.
+ * A malformed string gives an unreadable amount.
+ */
+export const parseDecimalMoney = (value: string, currencyCode: string = DEFAULT_CURRENCY): Money => {
+  const cleaned = value.replace(/[^\d.-]/g, '');
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(cleaned);
+  if (!match || (!match[2] && !match[3])) {
+    return unreadableMoney(value, currencyCode);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const nanos = BigInt(whole || '0') * NANOS_PER_UNIT + BigInt(fraction.slice(0, 9).padEnd(9, '0'));
+  return fromNanos(currencyCode, sign ? -nanos : nanos);
+};
+
+// Matches the int64 `units` as proto3 JSON sends it, number or string
+const INTEGER_PATTERN = /^-?\d+$/;
+
+const normalizeMoney = (value: MoneyLike, currencyCode: string): Money => {
+  const code = value.currency_code || currencyCode;
+  const units = value.units ?? 0;
+  const nanos = value.nanos ?? 0;
+  if (!INTEGER_PATTERN.test(String(units)) || !Number.isInteger(nanos)) {
+    return unreadableMoney(value, code);
+  }
+  return fromNanos(code, BigInt(units) * NANOS_PER_UNIT + BigInt(nanos));
+};
+
+/**
+ * Adapter for every price shape the API can send (legacy string or proto
+ * Money). Never throws, since prices are read while rendering: anything it
+ * cannot read becomes an unreadable amount, see `isReadableMoney`.
+ */
+export const toMoney = (value: PriceValue | number, currencyCode: string = DEFAULT_CURRENCY): Money => {
+  if (typeof value === 'string') {
+    return parseDecimalMoney(value, currencyCode);
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value)
+      ? fromNanos(currencyCode, BigInt(Math.round(value * 1e9)))
+      : unreadableMoney(value, currencyCode);
+  }
+  if (!value || typeof value !== 'object') {
+    return unreadableMoney(value, currencyCode);
+  }
+  return normalizeMoney(value, currencyCode);
+};
+
+const assertSameCurrency = (a: Money, b: Money): void => {
+  if (a.currency_code !== b.currency_code) {
+    throw new Error(`Cannot combine ${a.currency_code} and ${b.currency_code} amounts`);
+  }
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return taint(fromNanos(a.currency_code, toNanos(a) + toNanos(b)), a, b);
+};
+
+export const sumMoney = (values: Money[], currencyCode: string = DEFAULT_CURRENCY): Money =>
+  values.reduce(addMoney, zeroMoney(currencyCode));
+
+export const multiplyMoney = (money: Money, quantity: number): Money => {
+  if (!Number.isInteger(quantity)) {
+    throw new Error(`Quantity must be an integer, got ${quantity}`);
+  }
+  return taint(fromNanos(money.currency_code, toNanos(money) * BigInt(quantity)), money);
+};
+
+export const compareMoney = (a: Money, b: Money): number => {
+  assertSameCurrency(a, b);
+  const diff = toNanos(a) - toNanos(b);
+  return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+};
+
+export const isZeroMoney = (money: Money): boolean => toNanos(money) === 0n;
+
+// Exchange rates are inherently approximate; round the result to the nearest nano
+export const convertMoney = (money: Money, rate: number, toCode: string): Money => {
+  if (money.currency_code === toCode) {
+    return money;
+  }
+  return taint(fromNanos(toCode, BigInt(Math.round(moneyToNumber(money) * rate * 1e9))), money);
+};
+
+// Only for display (Intl) and rate math, never for totals
+export const moneyToNumber = (money: Money): number => money.units + money.nanos / 1e9;
+
+// Catalog prices are always USD (Product.price_usd in the proto). A price in
+// any other currency is bad data, and is unreadable rather than a reason for
+// sorting or summing prices to throw
+export const getProductPrice = (product: Pick<Product, 'price'>): Money => {
+  const price = toMoney(product.price, DEFAULT_CURRENCY);
+  return price.currency_code === DEFAULT_CURRENCY ? price : unreadableMoney(product.price, DEFAULT_CURRENCY);
+};
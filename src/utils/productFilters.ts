@@ -0,0 +1,138 @@
+import { Product } from '../types/Product';
+import { compareMoney, getProductPrice, moneyToNumber, toMoney } from './money';
+
+// 'relevance' keeps the incoming order: search rank, or catalog order when browsing
+export type SortOption = 'relevance' | 'price-asc' | 'price-desc' | 'name';
+
+export const SORT_OPTIONS: SortOption[] = ['relevance', 'price-asc', 'price-desc', 'name'];
+
+export interface ProductFilters {
+  categories: string[];
+  minPrice: number | null;  // Whole USD, inclusive
+  maxPrice: number | null;
+  sort: SortOption;
+}
+
+export interface PriceBounds {
+  min: number;
+  max: number;
+}
+
+export interface CategoryFacet {
+  category: string;
+  count: number;
+}
+
+// URL parameter names; `q` belongs to the search page and is left alone
+const PARAM_CATEGORY = 'category';
+const PARAM_MIN_PRICE = 'min';
+const PARAM_MAX_PRICE = 'max';
+const PARAM_SORT = 'sort';
+
+export const DEFAULT_FILTERS: ProductFilters = {
+  categories: [],
+  minPrice: null,
+  maxPrice: null,
+  sort: 'relevance',
+};
+
+const parsePrice = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+export const parseFilters = (params: URLSearchParams): ProductFilters => {
+  const sort = params.get(PARAM_SORT) as SortOption | null;
+  return {
+    categories: params.getAll(PARAM_CATEGORY),
+    minPrice: parsePrice(params.get(PARAM_MIN_PRICE)),
+    maxPrice: parsePrice(params.get(PARAM_MAX_PRICE)),
+    sort: sort && SORT_OPTIONS.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+  };
+};
+
+// Writes the filters into a copy of `params`, dropping anything at its default
+export const writeFilters = (params: URLSearchParams, filters: ProductFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  [PARAM_CATEGORY, PARAM_MIN_PRICE, PARAM_MAX_PRICE, PARAM_SORT].forEach(name => next.delete(name));
+
+  filters.categories.forEach(category => next.append(PARAM_CATEGORY, category));
+  if (filters.minPrice !== null) next.set(PARAM_MIN_PRICE, String(filters.minPrice));
+  if (filters.maxPrice !== null) next.set(PARAM_MAX_PRICE, String(filters.maxPrice));
+  if (filters.sort !== DEFAULT_FILTERS.sort) next.set(PARAM_SORT, filters.sort);
+
+  return next;
+};
+
+export const hasActiveFilters = (filters: ProductFilters): boolean =>
+  filters.categories.length > 0 || filters.minPrice !== null || filters.maxPrice !== null;
+
+const comparePrices = (a: Product, b: Product): number =>
+  compareMoney(getProductPrice(a), getProductPrice(b));
+
+// Whole-dollar bounds for the price slider
+export const getPriceBounds = (products: Product[]): PriceBounds | null => {
+  if (products.length === 0) {
+    return null;
+  }
+  const prices = products.map(product => moneyToNumber(getProductPrice(product)));
+  return { min: Math.floor(Math.min(...prices)), max: Math.ceil(Math.max(...prices)) };
+};
+
+const matchesPrice = (product: Product, filters: ProductFilters): boolean => {
+  const price = getProductPrice(product);
+  return (filters.minPrice === null || compareMoney(price, toMoney(filters.minPrice)) >= 0)
+    && (filters.maxPrice === null || compareMoney(price, toMoney(filters.maxPrice)) <= 0);
+};
+
+// Selected categories are OR-ed together
+const matchesCategories = (product: Product, filters: ProductFilters): boolean =>
+  filters.categories.length === 0
+  || (product.categories || []).some(category => filters.categories.includes(category));
+
+export const filterProducts = (products: Product[], filters: ProductFilters): Product[] =>
+  products.filter(product => matchesCategories(product, filters) && matchesPrice(product, filters));
+
+/**
+ * Counts per category under every filter except the category selection
+ * itself, so each count says how many products ticking that box would add.
+ * Every category stays listed, even when the price range takes it to 0.
+ */
+export const getCategoryFacets = (products: Product[], filters: ProductFilters): CategoryFacet[] => {
+  const counts = new Map<string, number>();
+  // Selected categories stay listed too, so a stale one from a shared link can be unticked
+  [...products.flatMap(product => product.categories || []), ...filters.categories]
+    .forEach(category => counts.set(category, 0));
+  products
+    .filter(product => matchesPrice(product, filters))
+    .forEach(product => (product.categories || []).forEach(category =>
+      counts.set(category, (counts.get(category) || 0) + 1)
+    ));
+
+  return Array.from(counts, ([category, count]) => ({ category, count }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+};
+
+export const sortProducts = (products: Product[], sort: SortOption): Product[] => {
+  if (sort === 'relevance') {
+    return products;
+  }
+
+  // Array.prototype.sort is stable, so ties keep their relevance order
+  return [...products].sort((a, b) => {
+    switch (sort) {
+      case 'price-asc':
+        return comparePrices(a, b);
+      case 'price-desc':
+        return comparePrices(b, a);
+      case 'name':
+        return a.name.localeCompare(b.name);
+    }
+  });
+};
+
+export const applyFilters = (products: Product[], filters: ProductFilters): Product[] =>
+  sortProducts(filterProducts(products, filters), filters.sort);
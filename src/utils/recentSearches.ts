@@ -0,0 +1,22 @@
+import { readStorage, writeStorage } from './session';
+
+const RECENT_SEARCHES_STORAGE_KEY = 'nero:recentSearches';
+const MAX_RECENT_SEARCHES = 8;
+
+export const getRecentSearches = (): string[] =>
+  readStorage<string[]>(RECENT_SEARCHES_STORAGE_KEY, []);
+
+// Most recent first; repeating a search moves it back to the top
+export const addRecentSearch = (query: string): void => {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return;
+  }
+
+  const rest = getRecentSearches().filter(item => item.toLowerCase() !== trimmed.toLowerCase());
+  writeStorage(RECENT_SEARCHES_STORAGE_KEY, [trimmed, ...rest].slice(0, MAX_RECENT_SEARCHES));
+};
+
+export const clearRecentSearches = (): void => {
+  writeStorage(RECENT_SEARCHES_STORAGE_KEY, []);
+};
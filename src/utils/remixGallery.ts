@@ -0,0 +1,99 @@
+import { RemixPromptRef } from './remixPrompts';
+
+// Remix results are images, far too big for localStorage, so they live in IndexedDB
+const DB_NAME = 'nero';
+const DB_VERSION = 1;
+const REMIX_STORE = 'remixes';
+export const MAX_STORED_REMIXES = 50;
+
+// One catalog product of an outfit remix
+export interface RemixOutfitItem {
+  productId: string;
+  productName: string;
+  productPicture: string;
+}
+
+export interface RemixRecord {
+  id: string;
+  productId: string;
+  productName: string;
+  productPicture: string;
+  prompt: string;
+  createdAt: number;
+  image: Blob;  // The generated image
+  userImage: Blob;  // The photo it was made from, so the prompt can be re-run
+  template?: RemixPromptRef;  // The preset the prompt was rendered from, if any
+  outfit?: RemixOutfitItem[];  // Outfit remixes only: every product layered onto the photo, in order
+}
+
+export type NewRemixRecord = Omit<RemixRecord, 'id' | 'createdAt'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(REMIX_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Try again next time, e.g. after the user leaves private browsing
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction and resolves with its result once the transaction commits
+const transact = async <T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(REMIX_STORE, mode);
+    const request = work(transaction.objectStore(REMIX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+let nextRemixId = 0;
+
+// Newest first
+export const listRemixes = async (): Promise<RemixRecord[]> => {
+  const remixes = await transact<RemixRecord[]>('readonly', store => store.index('createdAt').getAll());
+  return remixes.reverse();
+};
+
+// Keeps the most recent remixes only
+export const saveRemix = async (remix: NewRemixRecord): Promise<RemixRecord> => {
+  const record: RemixRecord = {
+    ...remix,
+    id: `${Date.now().toString(36)}-${(nextRemixId++).toString(36)}`,
+    createdAt: Date.now(),
+  };
+
+  await transact('readwrite', store => {
+    store.put(record);
+    const keys = store.index('createdAt').getAllKeys();
+    keys.onsuccess = () => {
+      keys.result.slice(0, -MAX_STORED_REMIXES).forEach(key => store.delete(key));
+    };
+    return keys;
+  });
+  return record;
+};
+
+export const deleteRemix = (id: string): Promise<undefined> =>
+  transact('readwrite', store => store.delete(id));
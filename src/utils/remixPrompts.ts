@@ -0,0 +1,247 @@
+import { Product } from '../types/Product';
+import { toCategorySlug } from './categories';
+
+/**
+ * Prompt templates for ImageRemix. The wording lives here as data: adding a
+ * category or rewording a prompt means editing the tables below, not the
+ * components. Templates are versioned, and remixes saved to the gallery
+ * record which template and version produced them.
+ */
+
+export type PromptVariable = 'productName' | 'category' | 'style' | 'setting';
+export type PromptVariables = Record<PromptVariable, string>;
+
+// 'remix' prompts are offered to the user; the outfit ones drive each pass of an outfit remix
+export type PromptUse = 'remix' | 'outfit-first' | 'outfit-layer';
+
+export interface RemixPromptTemplate {
+  id: string;  // Stable across versions
+  version: number;  // Bumped whenever the wording changes
+  label: string;  // Short name for pickers and the gallery
+  use: PromptUse;
+  // Category slugs the template is written for; empty means it is composed
+  // from {category} and suits any product
+  categories: string[];
+  text: string;  // {productName}, {category}, {style} and {setting} are filled in
+}
+
+export type ScenePresetId = 'original' | 'studio' | 'street' | 'beach';
+
+export interface ScenePreset {
+  id: ScenePresetId;
+  label: string;
+  description: string;
+  style: string;
+  setting: string;
+}
+
+// Which template, version and scene a prompt came from
+export interface RemixPromptRef {
+  templateId: string;
+  version: number;
+  scene: ScenePresetId;
+}
+
+export const SCENE_PRESETS: ScenePreset[] = [
+  {
+    id: 'original',
+    label: 'As Is',
+    description: 'Keep the background of your photo',
+    style: 'natural',
+    setting: 'keeping the original background',
+  },
+  {
+    id: 'studio',
+    label: 'Studio',
+    description: 'Soft lighting on a plain backdrop',
+    style: 'clean editorial',
+    setting: 'in a photo studio with soft lighting and a plain backdrop',
+  },
+  {
+    id: 'street',
+    label: 'Street',
+    description: 'Candid shot on a city street',
+    style: 'candid street-style',
+    setting: 'on a busy city street',
+  },
+  {
+    id: 'beach',
+    label: 'Beach',
+    description: 'Sunny and relaxed by the sea',
+    style: 'relaxed summer',
+    setting: 'on a sunny beach',
+  },
+];
+
+export const DEFAULT_SCENE: ScenePresetId = 'original';
+
+// Catalog categories grouped by how their products are worn or used
+const ACCESSORIES = ['accessories', 'jewelry', 'jewellery', 'watches', 'bags', 'sunglasses', 'eyewear', 'hats', 'hair'];
+const CLOTHING = ['clothing', 'tops', 'bottoms', 'dresses', 'shirts', 'pants', 'jackets', 'outerwear', 'vintage'];
+const FOOTWEAR = ['footwear', 'shoes', 'sneakers', 'boots', 'sandals'];
+const BEAUTY = ['beauty', 'cosmetics', 'makeup', 'skincare', 'fragrance'];
+const KITCHEN = ['kitchen', 'cookware', 'dining'];
+const HOME = ['home', 'decor', 'furniture', 'garden', 'gardening'];
+
+export const REMIX_PROMPT_TEMPLATES: RemixPromptTemplate[] = [
+  // Accessories
+  {
+    id: 'accessories.natural', version: 1, label: 'Natural', use: 'remix', categories: ACCESSORIES,
+    text: 'Place the {productName} on the person in a natural and stylish way, {setting}.',
+  },
+  {
+    id: 'accessories.elegant', version: 1, label: 'Elegant', use: 'remix', categories: ACCESSORIES,
+    text: 'Show the person wearing the {productName} elegantly in a {style} photo, {setting}.',
+  },
+  {
+    id: 'accessories.everyday', version: 1, label: 'Everyday', use: 'remix', categories: ACCESSORIES,
+    text: 'Create a {style} photo of the person using the {productName}, {setting}.',
+  },
+
+  // Clothing
+  {
+    id: 'clothing.fashionable', version: 1, label: 'Fashionable', use: 'remix', categories: CLOTHING,
+    text: 'Dress the person with the {productName} in a fashionable way, {setting}.',
+  },
+  {
+    id: 'clothing.stylish', version: 1, label: 'Stylish', use: 'remix', categories: CLOTHING,
+    text: 'Show the person wearing the {productName} stylishly in a {style} photo, {setting}.',
+  },
+  {
+    id: 'clothing.outfit', version: 1, label: 'Full Outfit', use: 'remix', categories: CLOTHING,
+    text: 'Create a natural outfit with the person wearing the {productName}, {setting}.',
+  },
+
+  // Footwear
+  {
+    id: 'footwear.natural', version: 1, label: 'Natural', use: 'remix', categories: FOOTWEAR,
+    text: 'Show the person wearing the {productName} on their feet naturally, {setting}.',
+  },
+  {
+    id: 'footwear.stylish', version: 1, label: 'Stylish', use: 'remix', categories: FOOTWEAR,
+    text: "Place the {productName} on the person's feet in a {style} photo, {setting}.",
+  },
+  {
+    id: 'footwear.full-length', version: 1, label: 'Full Length', use: 'remix', categories: FOOTWEAR,
+    text: 'Create a full-length {style} photo of the person wearing the {productName}, {setting}.',
+  },
+
+  // Beauty
+  {
+    id: 'beauty.natural', version: 1, label: 'Natural', use: 'remix', categories: BEAUTY,
+    text: 'Show the person using the {productName} in a natural way, {setting}.',
+  },
+  {
+    id: 'beauty.lifestyle', version: 1, label: 'Lifestyle', use: 'remix', categories: BEAUTY,
+    text: 'Create a {style} lifestyle photo of the person with the {productName}, {setting}.',
+  },
+  {
+    id: 'beauty.close-up', version: 1, label: 'Close-up', use: 'remix', categories: BEAUTY,
+    text: 'Create a close-up {style} portrait of the person holding the {productName}, {setting}.',
+  },
+
+  // Kitchen
+  {
+    id: 'kitchen.cooking', version: 1, label: 'Cooking', use: 'remix', categories: KITCHEN,
+    text: 'Show the person cooking with the {productName}, {setting}.',
+  },
+  {
+    id: 'kitchen.lifestyle', version: 1, label: 'Lifestyle', use: 'remix', categories: KITCHEN,
+    text: 'Create a {style} lifestyle photo of the person with the {productName}, {setting}.',
+  },
+  {
+    id: 'kitchen.in-hand', version: 1, label: 'In Hand', use: 'remix', categories: KITCHEN,
+    text: "Place the {productName} in the person's hands naturally, {setting}.",
+  },
+
+  // Home
+  {
+    id: 'home.living', version: 1, label: 'At Home', use: 'remix', categories: HOME,
+    text: 'Show the person enjoying the {productName} at home in a {style} photo.',
+  },
+  {
+    id: 'home.lifestyle', version: 1, label: 'Lifestyle', use: 'remix', categories: HOME,
+    text: 'Create a {style} lifestyle photo featuring the person and the {productName}, {setting}.',
+  },
+  {
+    id: 'home.nearby', version: 1, label: 'Nearby', use: 'remix', categories: HOME,
+    text: 'Place the {productName} near the person in a natural way, {setting}.',
+  },
+
+  // Composed for any other category
+  {
+    id: 'any.in-use', version: 1, label: 'In Use', use: 'remix', categories: [],
+    text: 'Show the person using the {productName}, a {category} product, the way it is meant to be used, {setting}.',
+  },
+  {
+    id: 'any.lifestyle', version: 1, label: 'Lifestyle', use: 'remix', categories: [],
+    text: 'Create a {style} {category} lifestyle photo of the person with the {productName}, {setting}.',
+  },
+  {
+    id: 'any.showcase', version: 1, label: 'Showcase', use: 'remix', categories: [],
+    text: 'Show the person presenting the {productName} so it is clearly visible, in a {style} photo, {setting}.',
+  },
+
+  // Outfit remix passes
+  {
+    id: 'outfit.first', version: 1, label: 'First Item', use: 'outfit-first', categories: [],
+    text: 'Show the person wearing the {productName} in a natural and stylish way.',
+  },
+  {
+    id: 'outfit.layer', version: 1, label: 'Next Item', use: 'outfit-layer', categories: [],
+    text: "Add the {productName} to the person's outfit, keeping everything they are already wearing unchanged.",
+  },
+];
+
+const FALLBACK_CATEGORY = 'lifestyle';
+
+export const getScenePreset = (id: ScenePresetId): ScenePreset =>
+  SCENE_PRESETS.find(preset => preset.id === id) ?? SCENE_PRESETS[0];
+
+export const getPromptTemplate = (id: string): RemixPromptTemplate | null =>
+  REMIX_PROMPT_TEMPLATES.find(template => template.id === id) ?? null;
+
+export const promptVariables = (product: Pick<Product, 'name' | 'categories'>, scene: ScenePresetId = DEFAULT_SCENE): PromptVariables => {
+  const preset = getScenePreset(scene);
+  return {
+    productName: product.name.toLowerCase(),
+    category: product.categories?.[0]?.toLowerCase() || FALLBACK_CATEGORY,
+    style: preset.style,
+    setting: preset.setting,
+  };
+};
+
+// Unknown placeholders are left as they are, so a typo shows up in the prompt
+export const renderPrompt = (template: RemixPromptTemplate, variables: PromptVariables): string =>
+  template.text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    (name in variables ? variables[name as PromptVariable] : placeholder));
+
+/**
+ * The remix templates for a product: those written for the first of its
+ * categories that has any, otherwise the composed ones, which work the
+ * category name into the prompt.
+ */
+export const templatesForProduct = (product: Pick<Product, 'categories'>): RemixPromptTemplate[] => {
+  const remixTemplates = REMIX_PROMPT_TEMPLATES.filter(template => template.use === 'remix');
+
+  for (const category of product.categories || []) {
+    // "Home & Garden" matches the home templates through its "home" part
+    const slug = toCategorySlug(category);
+    const slugs = [slug, ...slug.split('-')];
+    const matches = remixTemplates.filter(template => slugs.some(part => template.categories.includes(part)));
+    if (matches.length > 0) {
+      return matches;
+    }
+  }
+
+  return remixTemplates.filter(template => template.categories.length === 0);
+};
+
+// The only template for a use that has a single one, such as each outfit pass
+export const templateForUse = (use: Exclude<PromptUse, 'remix'>): RemixPromptTemplate => {
+  const template = REMIX_PROMPT_TEMPLATES.find(candidate => candidate.use === use);
+  if (!template) {
+    throw new Error(`No remix prompt template for "${use}"`);
+  }
+  return template;
+};
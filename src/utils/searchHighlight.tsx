@@ -1,20 +1,83 @@
 import React from 'react';
+import { MatchRange, foldText, queryTerms } from './searchIndex';
 
-export const highlightSearchTerm = (text: string, searchTerm: string): React.ReactNode => {
-  if (!searchTerm.trim()) {
-    return text;
+/**
+ * Every occurrence of every query term in `text`, compared accent- and
+ * case-insensitively. Plain substring search on the folded text, so regex
+ * metacharacters in the query ("(", "*") are just characters.
+ */
+export const findTermRanges = (text: string, query: string): MatchRange[] => {
+  const folded = foldText(text);
+  const ranges: MatchRange[] = [];
+
+  for (const term of queryTerms(query)) {
+    let index = folded.text.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: folded.offsets[index], end: folded.offsets[index + term.length] });
+      index = folded.text.indexOf(term, index + term.length);
+    }
   }
 
-  const regex = new RegExp(`(${searchTerm})`, 'gi');
-  const parts = text.split(regex);
+  return ranges;
+};
 
-  return parts.map((part, index) =>
-    regex.test(part) ? (
+// Sorts, clips to the text and merges overlapping or touching ranges
+const normalizeRanges = (ranges: MatchRange[], length: number): MatchRange[] => {
+  const sorted = ranges
+    .map(range => ({ start: Math.max(0, range.start), end: Math.min(length, range.end) }))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+export const highlightRanges = (text: string, ranges: MatchRange[]): React.ReactNode => {
+  const merged = normalizeRanges(ranges, text.length);
+  if (merged.length === 0) {
+    return text;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  merged.forEach((range, index) => {
+    if (range.start > cursor) {
+      parts.push(text.slice(cursor, range.start));
+    }
+    parts.push(
       <mark key={index} className="search-highlight">
-        {part}
+        {text.slice(range.start, range.end)}
       </mark>
-    ) : (
-      part
-    )
-  );
+    );
+    cursor = range.end;
+  });
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return parts;
+};
+
+/**
+ * Highlights the query terms in `text`, plus any fuzzy spans the search
+ * index matched (e.g. "Sunglasses" for the query "sunglases").
+ */
+export const highlightSearchTerm = (
+  text: string,
+  searchTerm: string,
+  matchRanges: MatchRange[] = []
+): React.ReactNode => {
+  if (!searchTerm.trim() && matchRanges.length === 0) {
+    return text;
+  }
+
+  return highlightRanges(text, [...findTermRanges(text, searchTerm), ...matchRanges]);
 };
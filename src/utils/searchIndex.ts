@@ -0,0 +1,324 @@
+import { Product } from '../types/Product';
+
+// A [start, end) span in the ORIGINAL (unfolded) text, ready for highlighting
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchMatches {
+  name: MatchRange[];
+  description: MatchRange[];
+  categories: MatchRange[][];  // One list per entry of product.categories
+}
+
+export interface SearchResult {
+  product: Product;
+  score: number;
+  matches: SearchMatches;
+}
+
+export interface FoldedText {
+  text: string;
+  // offsets[i] is the index in the original text of folded character i;
+  // the extra last entry maps the end of the folded text
+  offsets: number[];
+}
+
+export interface Token {
+  term: string;
+  start: number;  // Indices into the folded text
+  end: number;
+}
+
+interface IndexedField {
+  folded: FoldedText;
+  tokens: Token[];
+}
+
+interface IndexedProduct {
+  product: Product;
+  name: IndexedField;
+  description: IndexedField;
+  categories: IndexedField[];
+}
+
+export interface SearchIndex {
+  documents: IndexedProduct[];
+}
+
+type FieldName = 'name' | 'categories' | 'description';
+
+// A name hit outranks a category hit, which outranks a description hit
+const FIELD_WEIGHTS: Record<FieldName, number> = {
+  name: 3,
+  categories: 2,
+  description: 1,
+};
+
+const TERM_SCORES = {
+  exact: 1,
+  prefix: 0.6,  // Scaled up to 0.9 as the prefix covers more of the token
+  substring: 0.5,
+  fuzzy: 0.8,  // Minus 0.2 per edit
+};
+
+const PHRASE_BONUS = 0.5;
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercases and strips accents ("Café" → "cafe") character by character,
+ * keeping a map back to the original positions so matches can be highlighted
+ * in the text the user actually sees.
+ */
+export const foldText = (text: string): FoldedText => {
+  let folded = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length;) {
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    const foldedChar = char.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+    for (let k = 0; k < foldedChar.length; k++) {
+      offsets.push(i);
+    }
+    folded += foldedChar;
+    i += char.length;
+  }
+
+  offsets.push(text.length);
+  return { text: folded, offsets };
+};
+
+export const tokenize = (foldedText: string): Token[] =>
+  Array.from(foldedText.matchAll(TOKEN_PATTERN), match => ({
+    term: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+// Query terms, folded the same way as the indexed text
+export const queryTerms = (query: string): string[] =>
+  tokenize(foldText(query).text).map(token => token.term);
+
+// Short terms must match exactly; longer ones tolerate one or two typos
+const maxEdits = (term: string): number => {
+  if (term.length <= 3) return 0;
+  if (term.length <= 6) return 1;
+  return 2;
+};
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps), giving
+ * up early once every cell in a row is past `limit`.
+ */
+export const editDistance = (a: string, b: string, limit: number = Infinity): number => {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1;
+  }
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+};
+
+interface TermMatch {
+  score: number;
+  start: number;  // Folded text indices
+  end: number;
+}
+
+const matchToken = (term: string, token: Token): TermMatch | null => {
+  const word = token.term;
+
+  if (word === term) {
+    return { score: TERM_SCORES.exact, start: token.start, end: token.end };
+  }
+
+  if (word.startsWith(term)) {
+    const coverage = term.length / word.length;
+    return {
+      score: TERM_SCORES.prefix + 0.3 * coverage,
+      start: token.start,
+      end: token.start + term.length,
+    };
+  }
+
+  if (term.length >= 3) {
+    const index = word.indexOf(term);
+    if (index > 0) {
+      return {
+        score: TERM_SCORES.substring,
+        start: token.start + index,
+        end: token.start + index + term.length,
+      };
+    }
+  }
+
+  const limit = maxEdits(term);
+  if (limit === 0) {
+    return null;
+  }
+
+  const distance = editDistance(term, word, limit);
+  if (distance <= limit) {
+    return { score: TERM_SCORES.fuzzy - 0.2 * distance, start: token.start, end: token.end };
+  }
+
+  // Typos while the word is still being typed ("sungl" → "sunglasses")
+  if (word.length > term.length) {
+    const prefixDistance = editDistance(term, word.slice(0, term.length), limit);
+    if (prefixDistance <= limit) {
+      return {
+        score: (TERM_SCORES.fuzzy - 0.2 * prefixDistance) * 0.8,
+        start: token.start,
+        end: token.start + term.length,
+      };
+    }
+  }
+
+  return null;
+};
+
+const bestTokenMatch = (term: string, field: IndexedField): TermMatch | null => {
+  let best: TermMatch | null = null;
+  for (const token of field.tokens) {
+    const match = matchToken(term, token);
+    if (match && (!best || match.score > best.score)) {
+      best = match;
+    }
+  }
+  return best;
+};
+
+const toOriginalRange = (folded: FoldedText, start: number, end: number): MatchRange => ({
+  start: folded.offsets[start],
+  end: folded.offsets[end],
+});
+
+const indexField = (text: string): IndexedField => {
+  const folded = foldText(text || '');
+  return { folded, tokens: tokenize(folded.text) };
+};
+
+export const buildSearchIndex = (products: Product[]): SearchIndex => ({
+  documents: products.map(product => ({
+    product,
+    name: indexField(product.name),
+    description: indexField(product.description),
+    categories: (product.categories || []).map(indexField),
+  })),
+});
+
+const emptyMatches = (product: Product): SearchMatches => ({
+  name: [],
+  description: [],
+  categories: (product.categories || []).map(() => []),
+});
+
+// Scores one document; null when any query term fails to match
+const scoreDocument = (document: IndexedProduct, terms: string[], phrase: string): SearchResult | null => {
+  const matches = emptyMatches(document.product);
+  let score = 0;
+
+  for (const term of terms) {
+    let termScore = 0;
+
+    const nameMatch = bestTokenMatch(term, document.name);
+    if (nameMatch) {
+      termScore = Math.max(termScore, nameMatch.score * FIELD_WEIGHTS.name);
+      matches.name.push(toOriginalRange(document.name.folded, nameMatch.start, nameMatch.end));
+    }
+
+    document.categories.forEach((category, index) => {
+      const categoryMatch = bestTokenMatch(term, category);
+      if (categoryMatch) {
+        termScore = Math.max(termScore, categoryMatch.score * FIELD_WEIGHTS.categories);
+        matches.categories[index].push(toOriginalRange(category.folded, categoryMatch.start, categoryMatch.end));
+      }
+    });
+
+    const descriptionMatch = bestTokenMatch(term, document.description);
+    if (descriptionMatch) {
+      termScore = Math.max(termScore, descriptionMatch.score * FIELD_WEIGHTS.description);
+      matches.description.push(
+        toOriginalRange(document.description.folded, descriptionMatch.start, descriptionMatch.end)
+      );
+    }
+
+    if (termScore === 0) {
+      return null;
+    }
+    score += termScore;
+  }
+
+  // Reward multi-word queries that appear verbatim
+  if (terms.length > 1) {
+    if (document.name.folded.text.includes(phrase)) {
+      score += PHRASE_BONUS * FIELD_WEIGHTS.name;
+    } else if (document.description.folded.text.includes(phrase)) {
+      score += PHRASE_BONUS * FIELD_WEIGHTS.description;
+    }
+  }
+
+  return { product: document.product, score, matches };
+};
+
+const byScore = (a: SearchResult, b: SearchResult): number =>
+  b.score - a.score || a.product.name.localeCompare(b.product.name);
+
+/**
+ * Returns the products matching every term of `query`, best match first.
+ * An empty query matches nothing.
+ */
+export const searchIndex = (index: SearchIndex, query: string, limit?: number): SearchResult[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const phrase = terms.join(' ');
+  const results = index.documents
+    .map(document => scoreDocument(document, terms, phrase))
+    .filter((result): result is SearchResult => result !== null)
+    .sort(byScore);
+
+  return limit === undefined ? results : results.slice(0, limit);
+};
+
+/**
+ * Ranks a result list that was already filtered elsewhere (e.g. by the
+ * SearchProducts endpoint). Products the local index does not match are
+ * kept, after the ranked ones, in their original order.
+ */
+export const rankProducts = (products: Product[], query: string): SearchResult[] => {
+  const ranked = searchIndex(buildSearchIndex(products), query);
+  const rankedIds = new Set(ranked.map(result => result.product.id));
+  const rest = products
+    .filter(product => !rankedIds.has(product.id))
+    .map(product => ({ product, score: 0, matches: emptyMatches(product) }));
+
+  return [...ranked, ...rest];
+};
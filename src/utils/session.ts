@@ -0,0 +1,43 @@
+const SESSION_USER_ID_KEY = 'nero:userId';
+
+const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Anonymous user id used as `user_id` for the hipstershop services.
+// Persisted so the cart survives reloads without an account.
+export const getSessionUserId = (): string => {
+  try {
+    const stored = window.localStorage.getItem(SESSION_USER_ID_KEY);
+    if (stored) {
+      return stored;
+    }
+
+    const id = generateId();
+    window.localStorage.setItem(SESSION_USER_ID_KEY, id);
+    return id;
+  } catch {
+    return generateId();
+  }
+};
+
+// Small helpers for JSON values kept in localStorage
+export const readStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeStorage = (key: string, value: unknown): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to persist "${key}":`, error);
+  }
+};
@@ -0,0 +1,110 @@
+import { Address, CreditCardInfo } from '../types/Checkout';
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+// Form values are kept as strings while typing and converted on submit
+export type AddressFormValues = { [K in keyof Address]: string } & { email: string };
+export type CardFormValues = { [K in keyof CreditCardInfo]: string };
+
+export const isValidEmail = (email: string): boolean =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+export const validateAddress = (values: AddressFormValues): FieldErrors<AddressFormValues> => {
+  const errors: FieldErrors<AddressFormValues> = {};
+
+  if (!isValidEmail(values.email)) {
+    errors.email = 'Enter a valid email address.';
+  }
+  if (values.street_address.trim().length < 3) {
+    errors.street_address = 'Enter your street address.';
+  }
+  if (!values.city.trim()) {
+    errors.city = 'Enter your city.';
+  }
+  if (!values.state.trim()) {
+    errors.state = 'Enter your state or province.';
+  }
+  if (!values.country.trim()) {
+    errors.country = 'Enter your country.';
+  }
+  // Address.zip_code is an int32 in the proto
+  const zip = values.zip_code.trim();
+  if (!/^\d{1,9}$/.test(zip) || Number(zip) === 0) {
+    errors.zip_code = 'Enter a numeric zip code.';
+  }
+
+  return errors;
+};
+
+export const toAddress = (values: AddressFormValues): Address => ({
+  street_address: values.street_address.trim(),
+  city: values.city.trim(),
+  state: values.state.trim(),
+  country: values.country.trim(),
+  zip_code: Number(values.zip_code.trim()),
+});
+
+export const normalizeCardNumber = (value: string): string => value.replace(/[\s-]/g, '');
+
+export const passesLuhn = (cardNumber: string): boolean => {
+  const digits = normalizeCardNumber(cardNumber);
+  if (!/^\d{12,19}$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+};
+
+// A card is valid through the last day of its expiration month
+export const isCardExpired = (month: number, year: number, now: Date = new Date()): boolean => {
+  const currentYear = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+  return year < currentYear || (year === currentYear && month < currentMonth);
+};
+
+export const validateCard = (values: CardFormValues): FieldErrors<CardFormValues> => {
+  const errors: FieldErrors<CardFormValues> = {};
+  const month = Number(values.credit_card_expiration_month);
+  const year = Number(values.credit_card_expiration_year);
+
+  if (!passesLuhn(values.credit_card_number)) {
+    errors.credit_card_number = 'Enter a valid card number.';
+  }
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    errors.credit_card_expiration_month = 'Choose the expiration month.';
+  }
+  if (!Number.isInteger(year) || year < 2000) {
+    errors.credit_card_expiration_year = 'Choose the expiration year.';
+  } else if (!errors.credit_card_expiration_month && isCardExpired(month, year)) {
+    errors.credit_card_expiration_year = 'This card has expired.';
+  }
+  if (!/^\d{3,4}$/.test(values.credit_card_cvv.trim())) {
+    errors.credit_card_cvv = 'Enter the 3 or 4 digit security code.';
+  }
+
+  return errors;
+};
+
+export const toCreditCard = (values: CardFormValues): CreditCardInfo => ({
+  credit_card_number: normalizeCardNumber(values.credit_card_number),
+  credit_card_cvv: Number(values.credit_card_cvv.trim()),
+  credit_card_expiration_year: Number(values.credit_card_expiration_year),
+  credit_card_expiration_month: Number(values.credit_card_expiration_month),
+});
+
+export const maskCardNumber = (cardNumber: string): string => {
+  const digits = normalizeCardNumber(cardNumber);
+  return `•••• ${digits.slice(-4)}`;
+};
+
+export const hasErrors = (errors: object): boolean => Object.keys(errors).length > 0;